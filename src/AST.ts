@@ -0,0 +1,165 @@
+// AST Node interface
+interface ASTNode {
+    type: string;
+    value?: string;
+    children: ASTNode[];
+    line?: number;
+    column?: number;
+    start?: SourcePosition; // Span of the source the node came from
+    end?: SourcePosition;
+}
+
+// Builds the AST from the Parser's CST. Punctuation, StatementList chains and
+// single-child wrappers are dropped, so the grammar itself only lives in Parser.
+class ASTBuilder {
+    static build(cst: TreeNode): ASTNode {
+        // Program ::== Block $
+        return ASTBuilder.node('Program', cst, cst.children.map(child => ASTBuilder.buildBlock(child)));
+    }
+
+    private static node(type: string, source: TreeNode, children: ASTNode[] = [], value?: string): ASTNode {
+        const node: ASTNode = {
+            type,
+            children,
+            line: source.line,
+            column: source.column,
+            start: source.start,
+            end: source.end
+        };
+        if (value !== undefined) {
+            node.value = value;
+        }
+        return node;
+    }
+
+    // An operator node spanning both of its operands
+    private static binary(type: string, value: string, left: ASTNode, right: ASTNode): ASTNode {
+        return { type, value, children: [left, right], line: left.line, column: left.column, start: left.start, end: right.end };
+    }
+
+    // Operands alternating with IntOps or LogicOps, as one left-associative chain
+    private static chain(type: string, expr: TreeNode): ASTNode {
+        let left = ASTBuilder.buildExpr(expr.children[0]);
+        for (let i = 1; i + 1 < expr.children.length; i += 2) {
+            const right = ASTBuilder.buildExpr(expr.children[i + 1]);
+            left = ASTBuilder.binary(type, expr.children[i].value!, left, right);
+        }
+        return left;
+    }
+
+    // Whether running a node may call a function, which can assign any variable it sees.
+    // Declaring a function runs none of its body.
+    static containsCall(node: ASTNode): boolean {
+        if (node.type === 'FuncDecl') {
+            return false;
+        }
+        return node.type === 'Call' || node.children.some(child => ASTBuilder.containsCall(child));
+    }
+
+    // Block ::== { StatementList }, with the StatementList chain flattened
+    private static buildBlock(block: TreeNode): ASTNode {
+        const statements: ASTNode[] = [];
+        let list: TreeNode | undefined = block.children.find(child => child.name === 'StatementList');
+        while (list) {
+            let next: TreeNode | undefined;
+            for (const child of list.children) {
+                if (child.name === 'StatementList') {
+                    next = child;
+                } else {
+                    statements.push(ASTBuilder.buildStatement(child));
+                }
+            }
+            list = next;
+        }
+        return ASTBuilder.node('Block', block, statements);
+    }
+
+    private static buildStatement(statement: TreeNode): ASTNode {
+        switch (statement.name) {
+            case 'PrintStatement':
+                return ASTBuilder.node('Print', statement, [ASTBuilder.buildExpr(statement.children[0])]);
+            case 'VarDecl': {
+                const [typeNode, idNode] = statement.children;
+                return ASTBuilder.node('VarDecl', statement, [ASTBuilder.buildExpr(idNode)], typeNode.value);
+            }
+            case 'AssignmentStatement':
+                return ASTBuilder.node('Assignment', statement, statement.children.map(child => ASTBuilder.buildExpr(child)));
+            case 'WhileStatement':
+                return ASTBuilder.node('While', statement, [
+                    ASTBuilder.buildExpr(statement.children[0]),
+                    ASTBuilder.buildBlock(statement.children[1])
+                ]);
+            case 'IfStatement': {
+                // The else branch, when there is one, is a Block or the IfStatement of an else if
+                const [condition, block, elseClause] = statement.children;
+                const children = [ASTBuilder.buildExpr(condition), ASTBuilder.buildBlock(block)];
+                if (elseClause) {
+                    children.push(ASTBuilder.buildStatement(elseClause.children[0]));
+                }
+                return ASTBuilder.node('IfStatement', statement, children);
+            }
+            case 'FuncDecl': {
+                // Params holds one Param [type] per parameter; the value is the return type or void
+                const [idNode, paramList] = statement.children;
+                const returnType = statement.children.find(child => child.name === 'Type');
+                const body = statement.children.find(child => child.name === 'Block')!;
+                const params = paramList.children.map(param =>
+                    ASTBuilder.node('Param', param, [ASTBuilder.buildExpr(param.children[1])], param.children[0].value));
+                return ASTBuilder.node('FuncDecl', statement, [
+                    ASTBuilder.buildExpr(idNode),
+                    ASTBuilder.node('Params', paramList, params),
+                    ASTBuilder.buildBlock(body)
+                ], returnType ? returnType.value : 'void');
+            }
+            case 'ReturnStatement':
+                return ASTBuilder.node('Return', statement, statement.children.map(child => ASTBuilder.buildExpr(child)));
+            case 'Call':
+                return ASTBuilder.buildExpr(statement);
+            case 'Block':
+                return ASTBuilder.buildBlock(statement);
+            default:
+                throw new Error(`Unexpected CST statement node: ${statement.name}`);
+        }
+    }
+
+    private static buildExpr(expr: TreeNode): ASTNode {
+        switch (expr.name) {
+            case 'Id':
+                return ASTBuilder.node('Id', expr, [], expr.value);
+            case 'IntExpr':
+            case 'Term':
+                return ASTBuilder.chain('IntExpr', expr);
+            case 'Digit':
+                return ASTBuilder.node('IntExpr', expr, [], expr.value);
+            case 'StringExpr':
+                return ASTBuilder.node('StringExpr', expr, [], expr.children.map(char => char.value).join(''));
+            case 'BooleanExpr': {
+                // BooleanExpr ::== ( Expr boolop Expr ) | ( Expr { (and | or) Expr } ) | not Expr | boolval
+                const first = expr.children[0];
+                if (first.name === 'BoolVal') {
+                    return ASTBuilder.node('boolexpr', expr, [], first.value);
+                }
+                if (first.name === 'Not') {
+                    return ASTBuilder.node('boolexpr', expr, [ASTBuilder.buildExpr(expr.children[1])], 'not');
+                }
+                if (expr.children.length === 3 && expr.children[1].name === 'BoolOp') {
+                    const [left, op, right] = expr.children;
+                    return ASTBuilder.node('boolexpr', expr, [ASTBuilder.buildExpr(left), ASTBuilder.buildExpr(right)], op.value);
+                }
+                return ASTBuilder.chain('boolexpr', expr);
+            }
+            case 'Conjunction':
+                return ASTBuilder.chain('boolexpr', expr);
+            case 'Call': {
+                // The callee's name is the value, the arguments the children
+                const [idNode, ...args] = expr.children;
+                return ASTBuilder.node('Call', expr, args.map(arg => ASTBuilder.buildExpr(arg)), idNode.value);
+            }
+            default:
+                throw new Error(`Unexpected CST expression node: ${expr.name}`);
+        }
+    }
+}
+
+// Make class available globally
+(globalThis as any).ASTBuilder = ASTBuilder;
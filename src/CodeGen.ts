@@ -1,27 +1,70 @@
+// Links one emitted instruction to its assembly listing line and Alan++ source line
+interface SourceMapEntry {
+    address: number;
+    codeIndex: number;
+    line: number | null;
+    start: SourcePosition | null; // Span of the statement the instruction was emitted for
+    end: SourcePosition | null;
+}
+
+// Static-data table entry: a variable or temp known as T<n> until the backpatch pass places it
+interface StaticEntry {
+    label: string;
+    name: string;
+    type: string;
+    address: number | null;
+}
+
+// Jump-table entry: a branch or call target known as J<n> until its address is reached
+interface JumpEntry {
+    label: string;
+    address: number | null;
+}
+
+// One region of the 256-byte image (code, static data, free space or heap)
+interface MemoryRegion {
+    name: string;
+    start: number;
+    size: number;
+}
+
+// A placeholder in the emitted code that the backpatch pass fills in
+interface BackpatchTarget {
+    address: number;   // Address of the first placeholder byte
+    codeIndex: number; // Listing line to rewrite with the resolved value
+    label: string;
+}
+
 class CodeGen {
     private ast: ASTNode;
     private code: string[] = [];
     private binaryCode: number[] = [];
     private codeAddress: number = 0x00; // Code starts at 0x00
-    private staticData: Map<string, { address: number, type: string, name: string }> = new Map();
-    private variables: Map<string, { address: number, type: string }> = new Map();
-    private tempCounter: number = 0;
+    private ir: IRProgram | null = null;
+    private variableEntries: Map<IRVariable, StaticEntry> = new Map();
     private debugMessages: string[] = [];
     private memoryMap: Map<number, { value: number | null, description: string }> = new Map();
     private heapPointer: number = 0xFF; // Heap starts at 0xFF and grows downward
-    private labelCounter: number = 0;
-    private jumpLabelCounter: number = 0;
-    private nextVarAddress: number = 0xDB; // Variables start at 0xDB (based on correct output)
-    private nextTempAddress: number = 0x00; // Temp variables start at 0x00
+    private temps: StaticEntry[] = [];  // Temps, reused once their value is dead
+    private tempsInUse: Set<string> = new Set();
+    private tempLabels: Map<number, string> = new Map(); // IR temp -> static label
+    private jumpLabels: Map<string, string> = new Map(); // IR label -> jump entry
+    private frames: Map<IRFunction, { entry: string, result: string | null }> = new Map(); // Entry J label and result T label
     private debugEnabled: boolean = false;
     private stringData: { address: number, value: string }[] = [];
+    private diagnostics: Diagnostic[] = [];
+    private codeSize: number = 0; // Bytes of code including the final BRK, set by backpatch()
     
-    // Revised backpatching system to use only BNE (D0) for branching
-    private backpatchTargets: Map<number, string> = new Map(); // Address -> label name
-    private labelAddresses: Map<string, number> = new Map(); // Label name -> address
+    // Static data and branch targets are resolved by backpatch() once the code size is known
+    private staticTable: StaticEntry[] = [];
+    private jumpTable: JumpEntry[] = [];
+    private staticTargets: BackpatchTarget[] = []; // Two-byte addresses of T entries
+    private jumpTargets: BackpatchTarget[] = [];   // One-byte BNE offsets to J entries
+    private callTargets: BackpatchTarget[] = [];   // Two-byte JSR addresses of J entries
     
-    // Added class property to track which if statement we're processing
-    private firstIfProcessed: boolean = false;
+    // Maps each emitted instruction to its listing line and originating source line
+    private sourceMap: SourceMapEntry[] = [];
+    private currentSource: ASTNode | null = null;
     
     constructor(ast: ASTNode) {
         this.ast = ast;
@@ -29,10 +72,6 @@ class CodeGen {
         for (let i = 0; i < 0x100; i++) {
             this.memoryMap.set(i, { value: null, description: "Unused" });
         }
-        
-        // Initialize backpatching maps
-        this.backpatchTargets = new Map();
-        this.labelAddresses = new Map();
     }
     
     enableDebug(): void {
@@ -47,6 +86,14 @@ class CodeGen {
     
     private emit(instruction: string): void {
         this.code.push(instruction);
+        const source = this.currentSource;
+        this.sourceMap.push({
+            address: this.codeAddress,
+            codeIndex: this.code.length - 1,
+            line: source ? source.line! : null,
+            start: source && source.start || null,
+            end: source && source.end || null
+        });
         this.debug(`Emitting: ${instruction}`);
     }
     
@@ -91,183 +138,135 @@ class CodeGen {
         }
     }
     
-    private allocateTemp(): number {
-        const address = this.nextTempAddress;
-        this.nextTempAddress++;
-        if (this.nextTempAddress > 0x10) {
-            this.nextTempAddress = 0; // Reuse temp addresses in a circular buffer
-        }
-        this.memoryMap.set(address, { value: null, description: `Temp_${this.tempCounter++}` });
-        return address;
+    // Emit an instruction with a one-byte immediate operand, e.g. LDA #$01
+    private emitImmediate(mnemonic: string, opcode: number, value: number): void {
+        this.emit(`${mnemonic} #$${value.toString(16).padStart(2, '0').toUpperCase()}`);
+        this.emitBinary(opcode, value);
     }
     
-    private allocateVariable(name: string, type: string): number {
-        const address = this.nextVarAddress;
-        this.nextVarAddress++;
-        this.variables.set(name, { address, type });
-        this.memoryMap.set(address, { value: null, description: `Variable ${name} (${type})` });
-        this.debug(`Allocated variable ${name} of type ${type} at address $${address.toString(16).padStart(2, '0').toUpperCase()}`);
-        return address;
+    // Emit an instruction on a static entry, e.g. STA T0XX; backpatch() fills in the address
+    private emitStatic(mnemonic: string, opcode: number, label: string): void {
+        this.emit(`${mnemonic} ${label}XX`);
+        this.staticTargets.push({ address: this.codeAddress + 1, codeIndex: this.code.length - 1, label });
+        this.emitBinary(opcode, 0x00, 0x00);
     }
     
-    private allocateString(value: string): number {
-        // Use fixed addresses for known strings
-        if (value === "addition check") {
-            return 0xE6;
-        } else if (value === "true") {
-            return 0xFA;
-        } else if (value === "false") {
-            return 0xF5;
-        }
-        
-        // For any other strings, we'd need to allocate dynamically
-        this.debug(`WARNING: Unknown string "${value}" encountered`);
-        return 0xE0; // Use a safer default address
+    private addStaticEntry(name: string, type: string): StaticEntry {
+        const entry: StaticEntry = { label: `T${this.staticTable.length}`, name, type, address: null };
+        this.staticTable.push(entry);
+        return entry;
     }
     
-    private emitLabel(name: string): void {
-        // Record the current address for this label
-        this.debug(`Defining label ${name} at address ${this.codeAddress}`);
-        this.labelAddresses.set(name, this.codeAddress);
-        
-        // Check if there are any instructions waiting for this label
-        for (const [address, targetLabel] of this.backpatchTargets.entries()) {
-            if (targetLabel === name) {
-                // For BNE instructions, calculate a relative offset
-                // Branch offset is relative to the instruction following the branch
-                const branchInstructionAddress = address - 1;
-                const offset = this.codeAddress - (branchInstructionAddress + 2);
-                
-                if (offset <= 0 || offset === 1) {
-                    // Prevent unsafe branch offsets that are too small
-                    this.debug(`WARNING: Unsafe branch offset ${offset} at ${branchInstructionAddress} to ${name}, using safe value 2`);
-                    this.binaryCode[address] = 2;
-                } else {
-                    this.debug(`Backpatching BNE at ${branchInstructionAddress} to ${name} (offset ${offset})`);
-                    this.binaryCode[address] = offset & 0xFF;
-                }
-                
-                // Remove this entry from the backpatch targets
-                this.backpatchTargets.delete(address);
-            }
+    // The lowest free temp entry; a new one is added when all are in use
+    private allocateTemp(): string {
+        let entry = this.temps.find(temp => !this.tempsInUse.has(temp.label));
+        if (!entry) {
+            entry = this.addStaticEntry(`Temp_${this.temps.length}`, 'temp');
+            this.temps.push(entry);
         }
+        this.tempsInUse.add(entry.label);
+        return entry.label;
     }
     
-    private emitBranch(targetLabel: string): void {
-        // Emit BNE instruction (Branch if Not Equal)
-        this.emit(`BNE ${targetLabel}`);
-        this.emitBinary(0xD0);
-        
-        // Record that this location needs backpatching
-        const offsetAddress = this.codeAddress;
-        this.backpatchTargets.set(offsetAddress, targetLabel);
+    private releaseTemp(label: string): void {
+        this.tempsInUse.delete(label);
+    }
+    
+    private allocateVariable(variable: IRVariable): string {
+        const entry = this.addStaticEntry(variable.name, variable.type);
+        this.variableEntries.set(variable, entry);
+        this.debug(`Allocated variable ${variable.label} of type ${variable.type} as ${entry.label}XX`);
+        return entry.label;
+    }
+    
+    // Strings live on the heap, which grows down from 0xFF; equal literals share one copy
+    private allocateString(value: string): number {
+        const existing = this.stringData.find(str => str.value === value);
+        if (existing) {
+            return existing.address;
+        }
         
-        // Emit a safer placeholder offset - minimum 2 bytes to be safe
-        if (this.labelAddresses.has(targetLabel)) {
-            // We already know the target address
-            const targetAddress = this.labelAddresses.get(targetLabel)!;
-            const branchInstructionAddress = offsetAddress - 1;
-            const offset = targetAddress - (branchInstructionAddress + 2);
-            
-            if (offset <= 0 || offset === 1) {
-                // Prevent unsafe branch offsets
-                this.debug(`WARNING: Unsafe branch offset ${offset} to ${targetLabel}, using safe value 2`);
-                this.emitBinary(0x02);
-            } else {
-                this.emitBinary(offset & 0xFF);
-            }
-        } else {
-            // We don't know the target address yet - use a safer placeholder
-            this.emitBinary(0x05);
+        // The null terminator goes at the current heap pointer, the characters just below it
+        const address = this.heapPointer - value.length;
+        this.heapPointer = address - 1;
+        this.stringData.push({ address, value });
+        for (let i = 0; i <= value.length; i++) {
+            this.memoryMap.set(address + i, { value: null, description: `String "${value}"` });
         }
+        this.debug(`Allocated string "${value}" at address $${address.toString(16).padStart(2, '0').toUpperCase()}`);
+        return address;
     }
     
-    private createUnconditionalBranch(targetLabel: string): void {
-        // This creates an unconditional branch using BNE with a guaranteed not-equal condition
-        
-        // First set X to 0
-        this.emit(`LDX #$00`);
-        this.emitBinary(0xA2, 0x00);
-        
-        // Then set A to 1 and store in memory
-        this.emit(`LDA #$01`);
-        this.emitBinary(0xA9, 0x01);
-        this.emit(`STA $0000`);
-        this.emitBinary(0x8D, 0x00, 0x00);
-        
-        // Compare - this will always set the Z flag to 0 (not equal)
-        this.emit(`CPX $0000`);
-        this.emitBinary(0xEC, 0x00, 0x00);
-        
-        // Branch always (since X != memory)
-        this.emit(`BNE ${targetLabel}`);
-        this.emitBinary(0xD0, 0x05); // Use 5 as a safer placeholder offset
-        this.backpatchTargets.set(this.codeAddress-1, targetLabel);
+    private emitLabel(label: string): void {
+        // Record the current address for this jump entry
+        this.debug(`Defining ${label} at address ${this.codeAddress}`);
+        this.jumpTable.find(entry => entry.label === label)!.address = this.codeAddress;
     }
     
-    private generateLabel(prefix: string = "L"): string {
-        return `${prefix}${this.labelCounter++}`;
+    private emitBranch(targetLabel: string): void {
+        // Emit BNE instruction (Branch if Not Equal); backpatch() fills in the offset
+        this.emit(`BNE ${targetLabel}`);
+        this.jumpTargets.push({ address: this.codeAddress + 1, codeIndex: this.code.length - 1, label: targetLabel });
+        this.emitBinary(0xD0, 0x00);
     }
     
-    private generateJumpLabel(): string {
-        return `J${this.jumpLabelCounter++}`;
+    private createUnconditionalBranch(targetLabel: string): void {
+        // BNE after comparing X=0 with a temp holding 1 always branches
+        const temp = this.allocateTemp();
+        this.emitImmediate('LDA', 0xA9, 0x01);
+        this.emitStatic('STA', 0x8D, temp);
+        this.emitImmediate('LDX', 0xA2, 0x00);
+        this.emitStatic('CPX', 0xEC, temp);
+        this.releaseTemp(temp);
+        this.emitBranch(targetLabel);
     }
     
-    private getVariableAddress(name: string): number {
-        const variable = this.variables.get(name);
-        if (!variable) {
-            throw new Error(`Variable ${name} not found`);
-        }
-        return variable.address;
+    private generateLabel(): string {
+        const entry: JumpEntry = { label: `J${this.jumpTable.length}`, address: null };
+        this.jumpTable.push(entry);
+        return entry.label;
     }
     
-    private getVariableType(name: string): string {
-        const variable = this.variables.get(name);
-        if (!variable) {
-            throw new Error(`Variable ${name} not found`);
+    // Each IR label gets one jump entry, created on first reference
+    private jumpLabel(label: string): string {
+        let entry = this.jumpLabels.get(label);
+        if (!entry) {
+            entry = this.generateLabel();
+            this.jumpLabels.set(label, entry);
         }
-        return variable.type;
+        return entry;
     }
     
     // Main generation method
     generate(): string[] {
         this.debug("Starting code generation");
         
-        // Process the AST
-        this.processNode(this.ast);
-        
-        // Add the final BRK instruction
-        this.emit("BRK");
-        this.emitBinary(0x00);
+        // Lower the AST to three-address IR, then select 6502 instructions for it;
+        // the IR's final halt becomes the BRK that ends the main program
+        this.ir = new IRBuilder(this.ast).build();
+        this.allocateFrames(this.ir);
+        this.selectProgram(this.ir);
         const finalCodeAddress = this.codeAddress; // Record address after the last instruction
         
-        // Ensure code starts at 0x00 and pad if necessary before strings
-        // (This assumes code generation correctly filled binaryCode from index 0 up to finalCodeAddress)
-        
-        // Set starting address for the first string
-        this.codeAddress = 0xE6;
-        
-        // "addition check" at 0xE6
-        this.addStringWithNullTerminator("addition check"); // Ends at 0xF4, codeAddress becomes 0xF5
-        
-        // "false" at 0xF5
-        // No need to set codeAddress, it's already at 0xF5
-        this.addStringWithNullTerminator("false"); // Ends at 0xFA, codeAddress becomes 0xFB
-        
-        // "true" at 0xFA
-        // We need to place this specifically at 0xFA, overwriting the null from "false"
-        // This matches the required (but odd) memory layout from the test case.
-        this.codeAddress = 0xFA;
-        this.addStringWithNullTerminator("true"); // Ends at 0xFE, codeAddress becomes 0xFF
+        // Place static data after the code and resolve every T and J placeholder
+        this.backpatch();
         
         // Pad the rest of the memory up to 256 bytes if needed
         while (this.binaryCode.length < 256) {
             this.binaryCode.push(0);
         }
-        // Ensure binary code is exactly 256 bytes long
-        if (this.binaryCode.length > 256) {
-            this.binaryCode = this.binaryCode.slice(0, 256);
+        
+        // An image that does not fit has already been reported by backpatch()
+        if (this.diagnostics.length > 0) {
+            return this.code;
+        }
+        
+        // Write the heap strings into the image
+        for (const str of this.stringData) {
+            this.codeAddress = str.address;
+            this.addStringWithNullTerminator(str.value);
         }
+        this.codeAddress = finalCodeAddress;
         
         this.debug("Code generation completed");
         
@@ -277,782 +276,521 @@ class CodeGen {
         return this.code;
     }
     
-    private processNode(node: ASTNode): void {
-        if (!node) return;
+    // Static data goes right after the code; J entries become exact BNE offsets
+    private backpatch(): void {
+        this.codeSize = this.codeAddress;
+        const staticStart = this.codeAddress;
         
-        switch (node.type) {
-            case 'Program':
-                this.debug("Processing Program node");
-                for (const child of node.children) {
-                    this.processNode(child);
+        // Code grows up from 0x00 and the heap down from 0xFF; static data must fit in between
+        const staticSize = this.staticTable.length;
+        const heapSize = 0xFF - this.heapPointer;
+        const needed = this.codeSize + staticSize + heapSize;
+        if (needed > 0x100) {
+            this.addError('E401', `Program needs ${needed} bytes (code ${this.codeSize}, static ${staticSize}, heap ${heapSize}) but the image only has 256`);
+            return;
+        }
+        
+        // Static table: one byte per entry, in allocation order
+        this.staticTable.forEach((entry, index) => {
+            entry.address = staticStart + index;
+            const description = entry.type === 'temp' ? entry.name : `Variable ${entry.name} (${entry.type})`;
+            this.memoryMap.set(entry.address, { value: null, description });
+            this.debug(`Static ${entry.label}XX -> $${entry.address.toString(16).padStart(4, '0').toUpperCase()} (${entry.name})`);
+        });
+        
+        for (const target of this.staticTargets) {
+            const entry = this.staticTable.find(e => e.label === target.label)!;
+            const address = entry.address!;
+            this.binaryCode[target.address] = address & 0xFF;
+            this.binaryCode[target.address + 1] = address >> 8;
+            this.code[target.codeIndex] = this.code[target.codeIndex].replace(
+                `${target.label}XX`, `$${address.toString(16).padStart(4, '0').toUpperCase()}`);
+        }
+        
+        // Jump table: the offset is relative to the instruction following the branch
+        for (const target of this.jumpTargets) {
+            const entry = this.jumpTable.find(e => e.label === target.label)!;
+            if (entry.address === null) {
+                this.addError('E402', `Branch target ${target.label} was never defined`);
+                continue;
+            }
+            const offset = (entry.address - (target.address + 1)) & 0xFF;
+            this.debug(`Backpatching BNE at ${target.address - 1} to ${target.label} (offset ${offset})`);
+            this.binaryCode[target.address] = offset;
+            this.code[target.codeIndex] = `BNE $${offset.toString(16).padStart(2, '0').toUpperCase()}`;
+        }
+        
+        // Calls take the absolute address of the function's entry
+        for (const target of this.callTargets) {
+            const address = this.jumpTable.find(e => e.label === target.label)!.address!;
+            this.binaryCode[target.address] = address & 0xFF;
+            this.binaryCode[target.address + 1] = address >> 8;
+            this.code[target.codeIndex] = `JSR $${address.toString(16).padStart(4, '0').toUpperCase()}`;
+        }
+    }
+    
+    private addError(code: string, message: string): void {
+        this.diagnostics.push(createDiagnostic('codegen', 'error', code, message, null));
+        this.debug(`ERROR: ${message}`);
+    }
+    
+    getDiagnostics(): Diagnostic[] {
+        return this.diagnostics;
+    }
+    
+    // Code, static, free and heap regions of the image, in address order
+    getMemoryRegions(): MemoryRegion[] {
+        const staticSize = this.staticTable.length;
+        const heapStart = this.heapPointer + 1;
+        const staticEnd = this.codeSize + staticSize;
+        return [
+            { name: 'Code', start: 0x00, size: this.codeSize },
+            { name: 'Static', start: this.codeSize, size: staticSize },
+            { name: 'Free', start: staticEnd, size: Math.max(0, heapStart - staticEnd) },
+            { name: 'Heap', start: heapStart, size: 0x100 - heapStart }
+        ];
+    }
+    
+    getBinaryCode(): number[] {
+        return this.binaryCode;
+    }
+    
+    getDebugMessages(): string[] {
+        return this.debugMessages;
+    }
+    
+    getSourceMap(): SourceMapEntry[] {
+        return this.sourceMap;
+    }
+    
+    // The IR the code was selected from, available once generate() has run
+    getIR(): IRProgram | null {
+        return this.ir;
+    }
+    
+    // A call can be selected before the body of its function, so every function's
+    // parameters, result entry and entry label are allocated first
+    private allocateFrames(program: IRProgram): void {
+        for (const func of program.functions) {
+            func.params.forEach(param => this.allocateVariable(param));
+            this.frames.set(func, {
+                entry: this.generateLabel(),
+                result: func.returnType ? this.addStaticEntry(`Result_${func.label}`, 'temp').label : null
+            });
+        }
+    }
+    
+    // Instruction selection: one 6502 sequence per IR instruction. The functions follow
+    // the main program's BRK; there is no recursion, so each can keep its temps in entries
+    // of its own that stay intact while it calls another function.
+    private selectProgram(program: IRProgram): void {
+        this.selectInstructions(program.instructions);
+        for (const func of program.functions) {
+            this.temps = [];
+            this.tempsInUse = new Set();
+            this.emitLabel(this.frames.get(func)!.entry);
+            this.selectInstructions(func.instructions);
+            const last = func.instructions[func.instructions.length - 1];
+            if (!last || last.op !== 'return') {
+                this.emitReturn();
+            }
+        }
+    }
+    
+    private selectInstructions(instructions: IRInstruction[]): void {
+        const releases = CodeGen.findTempReleases(instructions);
+        instructions.forEach((instruction, index) => {
+            // Attribute the selected instructions to the statement they were lowered from
+            this.currentSource = instruction.source;
+            this.debug(`Selecting: ${IRBuilder.formatInstruction(instruction).trim()}`);
+            this.selectInstruction(instruction);
+            // A temp's entry can be reused once its last reader has been selected
+            for (const id of releases.get(index) || []) {
+                this.releaseTemp(this.tempLabels.get(id)!);
+            }
+        });
+        this.currentSource = null;
+    }
+    
+    // Index of the instruction after which each IR temp is dead
+    private static findTempReleases(instructions: IRInstruction[]): Map<number, number[]> {
+        const lastUse: Map<number, number> = new Map();
+        instructions.forEach((instruction, index) => {
+            for (const operand of CodeGen.operandsOf(instruction)) {
+                if (operand.kind === 'temp') {
+                    lastUse.set(operand.id, index);
                 }
+            }
+        });
+        const releases: Map<number, number[]> = new Map();
+        lastUse.forEach((index, id) => {
+            releases.set(index, (releases.get(index) || []).concat(id));
+        });
+        return releases;
+    }
+    
+    // Every operand an instruction reads or writes
+    private static operandsOf(instruction: IRInstruction): IROperand[] {
+        switch (instruction.op) {
+            case 'copy':
+                return [instruction.dest, instruction.src];
+            case 'add':
+            case 'subtract':
+            case 'multiply':
+            case 'equal':
+            case 'notEqual':
+            case 'less':
+            case 'lessEqual':
+            case 'greater':
+            case 'greaterEqual':
+                return [instruction.dest, instruction.left, instruction.right];
+            case 'jumpIfFalse':
+            case 'jumpIfTrue':
+                return [instruction.condition];
+            case 'print':
+                return [instruction.src];
+            case 'call':
+                return instruction.dest ? [...instruction.args, instruction.dest] : instruction.args;
+            case 'return':
+                return instruction.value ? [instruction.value] : [];
+            default:
+                return [];
+        }
+    }
+    
+    private selectInstruction(instruction: IRInstruction): void {
+        switch (instruction.op) {
+            case 'declare':
+                this.allocateVariable(instruction.variable);
                 break;
-                
-            case 'Block':
-                this.debug("Processing Block node");
-                for (const child of node.children) {
-                    this.processNode(child);
-                }
+    
+            case 'copy':
+                this.emitLoad('A', instruction.src);
+                this.emitStatic('STA', 0x8D, this.placeLabel(instruction.dest));
                 break;
-                
-            case 'VarDecl':
-                this.processVarDecl(node);
+    
+            case 'add':
+            case 'equal':
+            case 'notEqual':
+                this.selectBinary(instruction);
                 break;
-                
-            case 'Assignment':
-                this.processAssignment(node);
+    
+            case 'subtract':
+                this.selectSubtract(instruction);
                 break;
-                
-            case 'Print':
-                this.processPrint(node);
+    
+            case 'multiply':
+                this.selectMultiply(instruction);
                 break;
-                
-            case 'IfStatement':
-                this.processIf(node);
+    
+            case 'less':
+            case 'lessEqual':
+            case 'greater':
+            case 'greaterEqual':
+                this.selectRelational(instruction);
                 break;
-                
-            case 'While':
-                this.processWhile(node);
+    
+            case 'label':
+                this.emitLabel(this.jumpLabel(instruction.label));
+                break;
+    
+            case 'jump':
+                this.createUnconditionalBranch(this.jumpLabel(instruction.label));
+                break;
+    
+            case 'jumpIfFalse':
+            case 'jumpIfTrue':
+                this.selectConditionalJump(instruction);
+                break;
+    
+            case 'print':
+                this.selectPrint(instruction.src);
+                break;
+    
+            case 'call':
+                this.selectCall(instruction);
+                break;
+    
+            case 'return': {
+                const result = this.frames.get(instruction.func)!.result;
+                if (instruction.value && result) {
+                    this.emitLoad('A', instruction.value);
+                    this.emitStatic('STA', 0x8D, result);
+                }
+                this.emitReturn();
+                break;
+            }
+    
+            case 'halt':
+                this.emit("BRK");
+                this.emitBinary(0x00);
                 break;
-                
-            default:
-                this.debug(`Unknown node type: ${node.type}`);
         }
     }
     
-    private processVarDecl(node: ASTNode): void {
-        this.debug(`Processing VarDecl node: ${node.value}`);
-        
-        // Extract the variable name from the ID node
-        const idNode = node.children[0];
-        const variableName = idNode.value!;
-        const variableType = node.value!;
-        
-        // Allocate space for the variable
-        this.allocateVariable(variableName, variableType);
-        
-        // Initialize with default value based on type
-        if (variableType === 'int') {
-            // Initialize int to 0
-            this.emit(`LDA #$00`); // Load 0 into accumulator
-            this.emitBinary(0xA9, 0x00);
-            
-            const variableAddress = this.getVariableAddress(variableName);
-            this.emit(`STA $${variableAddress.toString(16).padStart(4, '0').toUpperCase()}`);
-            this.emitBinary(0x8D, variableAddress & 0xFF, variableAddress >> 8);
-        }
-        else if (variableType === 'boolean') {
-            // Initialize boolean to false (0)
-            this.emit(`LDA #$00`); // Load 0 into accumulator
-            this.emitBinary(0xA9, 0x00);
-            
-            const variableAddress = this.getVariableAddress(variableName);
-            this.emit(`STA $${variableAddress.toString(16).padStart(4, '0').toUpperCase()}`);
-            this.emitBinary(0x8D, variableAddress & 0xFF, variableAddress >> 8);
+    private selectBinary(instruction: IRBinary): void {
+        let { left, right } = instruction;
+        // ADC and CPX read their second operand from memory; add, equal and notEqual
+        // are commutative, so put the operand already in memory on the right
+        if (this.immediateValue(right) !== null && this.immediateValue(left) === null) {
+            [left, right] = [right, left];
         }
-    }
+        const { label, scratch } = this.stageInMemory(right);
     
-    private processAssignment(node: ASTNode): void {
-        this.debug("Processing Assignment node");
-        
-        // Get the variable name and address
-        const idNode = node.children[0];
-        const variableName = idNode.value!;
-        const variableAddress = this.getVariableAddress(variableName);
-        const variableType = this.getVariableType(variableName);
-        
-        // Process the expression
-        const exprNode = node.children[1];
-        
-        if (variableType === 'int') {
-            if (exprNode.type === 'IntExpr' && exprNode.value === '+' && 
-                exprNode.children[0].type === 'Id' && 
-                exprNode.children[0].value === variableName) {
-                
-                // Special case for a = a + <expr>
-                // Load variable a into memory first
-                this.emit(`LDA $${variableAddress.toString(16).padStart(4, '0').toUpperCase()}`);
-                this.emitBinary(0xAD, variableAddress & 0xFF, variableAddress >> 8);
-                
-                // Store in memory
-                this.emit(`STA $0000`);
-                this.emitBinary(0x8D, 0x00, 0x00);
-                
-                // Process the right operand
-                this.processIntExpr(exprNode.children[1]);
-                
-                // Add memory (which has a) to the accumulator
-                this.emit(`ADC $0000`);
-                this.emitBinary(0x6D, 0x00, 0x00);
-                
-                // Store result in variable
-                this.emit(`STA $${variableAddress.toString(16).padStart(4, '0').toUpperCase()}`);
-                this.emitBinary(0x8D, variableAddress & 0xFF, variableAddress >> 8);
-            } else {
-                // Normal assignment
-                this.processIntExpr(exprNode);
-                this.emit(`STA $${variableAddress.toString(16).padStart(4, '0').toUpperCase()}`);
-                this.emitBinary(0x8D, variableAddress & 0xFF, variableAddress >> 8);
-            }
-        } 
-        else if (variableType === 'string') {
-            // For strings, we allocate the string in heap and store its address
-            if (exprNode.type === 'StringExpr') {
-                const stringAddress = this.allocateString(exprNode.value!);
-                this.emit(`LDA #$${stringAddress.toString(16).padStart(2, '0').toUpperCase()}`);
-                this.emitBinary(0xA9, stringAddress);
-                this.emit(`STA $${variableAddress.toString(16).padStart(4, '0').toUpperCase()}`);
-                this.emitBinary(0x8D, variableAddress & 0xFF, variableAddress >> 8);
-            }
+        if (instruction.op === 'add') {
+            this.emitLoad('A', left);
+            this.emitStatic('ADC', 0x6D, label);
+        } else {
+            // CPX sets Z when the values are equal; load the result for "equal",
+            // then skip the next load when not equal
+            this.emitLoad('X', left);
+            this.emitStatic('CPX', 0xEC, label);
+            const equalValue = instruction.op === 'equal' ? 1 : 0;
+            this.emitImmediate('LDA', 0xA9, 1 - equalValue);
+            this.emit(`BNE +2`);
+            this.emitBinary(0xD0, 0x02);
+            this.emitImmediate('LDA', 0xA9, equalValue);
         }
-        else if (variableType === 'boolean') {
-            // Generate code for boolean assignment
-            this.processBoolExpr(exprNode);
-            this.emit(`STA $${variableAddress.toString(16).padStart(4, '0').toUpperCase()}`);
-            this.emitBinary(0x8D, variableAddress & 0xFF, variableAddress >> 8);
+    
+        if (scratch) {
+            this.releaseTemp(label);
         }
+        this.emitStatic('STA', 0x8D, this.placeLabel(instruction.dest));
     }
     
-    private processIntExpr(node: ASTNode): void {
-        this.debug(`Processing IntExpr node: Value='${node.value || ''}', Type='${node.type}', Children=${node.children.length}`);
-
-        // Handle different types of integer expressions
-        if ((node.type === 'IntExpr' && node.children.length === 0) || node.type === 'Digit') {
-            // Direct integer value - ensure it's a valid number
-            const value = parseInt(node.value!) || 0; // Use 0 if parsing fails
-            this.debug(`  Emitting LDA for integer literal: ${value}`);
-            this.emit(`LDA #$${value.toString(16).padStart(2, '0').toUpperCase()}`);
-            this.emitBinary(0xA9, value);
-        }
-        else if (node.type === 'Id') {
-            // Variable reference
-            this.debug(`  Processing Identifier: ${node.value}`);
-            const variableAddress = this.getVariableAddress(node.value!);
-            this.debug(`  Emitting LDA for variable '${node.value}' at address ${variableAddress.toString(16)}`);
-            this.emit(`LDA $${variableAddress.toString(16).padStart(4, '0').toUpperCase()}`);
-            this.emitBinary(0xAD, variableAddress & 0xFF, variableAddress >> 8);
+    // There is no SBC: a - b is a + (256 - b). A literal b is negated at compile time;
+    // otherwise 256 - b is taken as 255 * b, the two's complement of b modulo 256,
+    // which ADCs alone build as b * 3 * 5 * 17
+    private selectSubtract(instruction: IRBinary): void {
+        const constant = this.immediateValue(instruction.right);
+        if (constant !== null) {
+            this.selectBinary({ ...instruction, op: 'add', right: IRBuilder.constant('int', (0x100 - constant) & 0xFF) });
+            return;
         }
-        else if (node.type === 'IntExpr' && node.value === '+' && node.children.length === 2) {
-            this.debug(`  Processing Addition Operation`);
-            // Binary operation (addition)
-            
-            // Special case for 3+2+1 pattern (assuming parsed as 3+(2+1))
-            if (this.hasSumPattern(node)) {
-                 this.debug(`  Detected special sum pattern 3+(2+1)`);
-                // ... (keep existing special case code) ...
-                this.emit(`LDA #$03`); this.emitBinary(0xA9, 0x03);
-                this.emit(`STA $0000`); this.emitBinary(0x8D, 0x00, 0x00);
-                this.emit(`LDA #$02`); this.emitBinary(0xA9, 0x02);
-                this.emit(`ADC $0000`); this.emitBinary(0x6D, 0x00, 0x00);
-                this.emit(`STA $0000`); this.emitBinary(0x8D, 0x00, 0x00);
-                this.emit(`LDA #$01`); this.emitBinary(0xA9, 0x01);
-                this.emit(`ADC $0000`); this.emitBinary(0x6D, 0x00, 0x00);
-                // Result is now in A, let the caller handle STA if needed for assignment
-                // For print, the result in A is fine.
-                // For assignment, the caller (processAssignment) will STA
-                // For intermediate results, we need to STA
-                this.emit(`STA $0000`); // Store intermediate result for potential use
-                this.emitBinary(0x8D, 0x00, 0x00);
-                return; // Exit after special case
+    
+        // Stage a first: storing a literal goes through A, which then builds the product
+        const minuend = this.stageInMemory(instruction.left);
+        const factor = this.allocateTemp();
+        const doubled = this.allocateTemp();
+        this.emitStatic('LDA', 0xAD, this.placeLabel(instruction.right as IRPlace));
+        // x * 3 = x + x + x, then x * 5 = x + x + x + x + x
+        for (const times of [3, 5]) {
+            this.emitStatic('STA', 0x8D, factor);
+            for (let i = 1; i < times; i++) {
+                this.emitStatic('ADC', 0x6D, factor);
             }
-
-            // FIX: Correct handling for general addition (Left-associative assumed: (e.g. 1+2)+3)
-            this.debug(`  Processing left operand`);
-            this.processIntExpr(node.children[0]); // Process left operand, result ends in A
-            
-            // Store the result of the left operand in a temporary memory location
-            this.debug(`  Storing left operand result`);
-            this.emit(`STA $0000`); // Use $00 as temp storage for left result
-            this.emitBinary(0x8D, 0x00, 0x00);
-            
-            // Process the right operand
-            this.debug(`  Processing right operand`);
-            this.processIntExpr(node.children[1]); // Process right operand, result ends in A
-            
-            // Add the stored left operand result (from $00) to the right operand result (in A)
-            this.debug(`  Adding stored left operand to right operand`);
-            this.emit(`ADC $0000`);
-            this.emitBinary(0x6D, 0x00, 0x00);
-
-            // The final result of the addition is now in A.
-            // The caller (processPrint, processAssignment, or another processIntExpr) will handle it.
-            // If this is an intermediate result (e.g., the (1+2) in (1+2)+3), store it.
-            // Let's store intermediate results just in case.
-            this.debug(`  Storing intermediate addition result`);
-            this.emit(`STA $0000`);
-            this.emitBinary(0x8D, 0x00, 0x00);
-            
         }
-        else {
-            this.debug(`  Unhandled IntExpr variant or other node type: ${node.type} with value ${node.value}`);
-            // Handle other cases or throw error if necessary
+        // x * 17 = x doubled four times, plus x
+        this.emitStatic('STA', 0x8D, factor);
+        this.emitStatic('ADC', 0x6D, factor);
+        for (let i = 1; i < 4; i++) {
+            this.emitStatic('STA', 0x8D, doubled);
+            this.emitStatic('ADC', 0x6D, doubled);
         }
+        this.emitStatic('ADC', 0x6D, factor);
+    
+        this.emitStatic('ADC', 0x6D, minuend.label);
+        this.releaseTemp(factor);
+        this.releaseTemp(doubled);
+        if (minuend.scratch) {
+            this.releaseTemp(minuend.label);
+        }
+        this.emitStatic('STA', 0x8D, this.placeLabel(instruction.dest));
     }
     
-    // Helper method to check for the specific 3+2+1 pattern
-    private hasSumPattern(node: ASTNode): boolean {
-        // Check if this is a specific pattern like (3+(2+1))
-        if (node.value === '+' && node.children.length === 2) {
-            // Check left side is 3
-            if (node.children[0].type === 'IntExpr' && 
-                node.children[0].children.length === 0 && 
-                parseInt(node.children[0].value!) === 3) {
-                
-                // Check right side is (2+1)
-                const rightNode = node.children[1];
-                if (rightNode.value === '+' && rightNode.children.length === 2) {
-                    const leftVal = rightNode.children[0].type === 'IntExpr' && 
-                                   rightNode.children[0].children.length === 0 && 
-                                   parseInt(rightNode.children[0].value!) === 2;
-                    
-                    const rightVal = rightNode.children[1].type === 'IntExpr' && 
-                                    rightNode.children[1].children.length === 0 && 
-                                    parseInt(rightNode.children[1].value!) === 1;
-                    
-                    return leftVal && rightVal;
-                }
+    // Repeated addition: add a to A until a counter reaches b. The counter is tested
+    // after each addition, so b = 0 runs 256 times, which also gives 0
+    private selectMultiply(instruction: IRBinary): void {
+        let { left, right } = instruction;
+        // The right operand sets the trip count; a literal one keeps it known and usually small
+        if (this.immediateValue(left) !== null && this.immediateValue(right) === null) {
+            [left, right] = [right, left];
+        }
+        const multiplicand = this.stageInMemory(left);
+        const multiplier = this.stageInMemory(right);
+        const counter = this.allocateTemp();
+        this.emitImmediate('LDA', 0xA9, 0x00);
+        this.emitStatic('STA', 0x8D, counter);
+        const loop = this.generateLabel();
+        this.emitLabel(loop);
+        this.emitStatic('ADC', 0x6D, multiplicand.label);
+        this.emitStatic('INC', 0xEE, counter);
+        this.emitStatic('LDX', 0xAE, counter);
+        this.emitStatic('CPX', 0xEC, multiplier.label);
+        this.emitBranch(loop);
+    
+        for (const staged of [multiplicand, multiplier]) {
+            if (staged.scratch) {
+                this.releaseTemp(staged.label);
             }
         }
-        return false;
+        this.releaseTemp(counter);
+        this.emitStatic('STA', 0x8D, this.placeLabel(instruction.dest));
     }
     
-    // Helper method to check for the specific 1+1+1+1+1 pattern
-    private hasFiveOnesPattern(node: ASTNode): boolean {
-        // Simple check for now - we know this pattern will appear in the test case
-        // A more robust approach would recursively check the tree
-        return false; // This will be handled by the normal case
-    }
+    // Unsigned comparisons. x <= y holds when counting up from x reaches y before
+    // wrapping past 255; the other operators swap the operands and/or negate the result.
+    private selectRelational(instruction: IRBinary): void {
+        const swap = instruction.op === 'greaterEqual' || instruction.op === 'less';
+        const negate = instruction.op === 'less' || instruction.op === 'greater';
+        const [from, to] = swap ? [instruction.right, instruction.left] : [instruction.left, instruction.right];
+        const foundValue = negate ? 0 : 1;
     
-    private isPrintExpr(node: ASTNode): boolean {
-        // We don't need this anymore since we're handling all cases explicitly
-        return false;
-    }
+        const target = this.stageInMemory(to);
+        const counter = this.allocateTemp();
+        const dest = this.placeLabel(instruction.dest);
+        this.emitImmediate('LDA', 0xA9, 1 - foundValue);
+        this.emitStatic('STA', 0x8D, dest);
+        this.emitLoad('A', from);
+        this.emitStatic('STA', 0x8D, counter);
     
-    private processBoolExpr(node: ASTNode): void {
-        this.debug(`Processing BoolExpr node: ${node.value || ''}`);
-        
-        if (node.type === 'boolexpr' && node.children.length === 0) {
-            // Direct boolean value - match expected pattern
-            const value = node.value === 'true' ? 1 : 0;
-            
-            // Set A to boolean value
-            this.emit(`LDA #$${value.toString(16).padStart(2, '0').toUpperCase()}`);
-            this.emitBinary(0xA9, value);
-            
-            // Transfer to memory, set X to 0, compare
-            this.emit(`LDX #$00`);
-            this.emitBinary(0xA2, 0x00);
-            this.emit(`STA $0000`);
-            this.emitBinary(0x8D, 0x00, 0x00);
-            this.emit(`CPX $0000`);
-            this.emitBinary(0xEC, 0x00, 0x00);
-        }
-        else if (node.type === 'Id') {
-            // Variable reference
-            const variableAddress = this.getVariableAddress(node.value!);
-            this.emit(`LDX $${variableAddress.toString(16).padStart(4, '0').toUpperCase()}`);
-            this.emitBinary(0xAE, variableAddress & 0xFF, variableAddress >> 8);
-            
-            // Store dummy value to compare with
-            this.emit(`LDA #$00`);
-            this.emitBinary(0xA9, 0x00);
-            this.emit(`STA $0000`);
-            this.emitBinary(0x8D, 0x00, 0x00);
-            
-            // Compare X with memory (usually 0) for flag setting
-            this.emit(`CPX $0000`);
-            this.emitBinary(0xEC, 0x00, 0x00);
-        }
-        else if (node.type === 'boolexpr' && node.children.length === 2) {
-            // Comparison operation
-            if (node.value === '==' || node.value === '!=') {
-                if (this.getExpressionType(node.children[0]) === 'int' && 
-                    this.getExpressionType(node.children[1]) === 'int') {
-                    
-                    // For equality comparison between variables and constants
-                    const leftNode = node.children[0];
-                    const rightNode = node.children[1];
-                    
-                    if (leftNode.type === 'Id') {
-                        // Load the variable directly into X register
-                        const variableAddress = this.getVariableAddress(leftNode.value!);
-                        this.emit(`LDX $${variableAddress.toString(16).padStart(4, '0').toUpperCase()}`);
-                        this.emitBinary(0xAE, variableAddress & 0xFF, variableAddress >> 8);
-                    } else {
-                        // Process the left side and store in X register
-                        this.processIntExpr(leftNode);
-                        // Store A to memory then load into X (instead of TAX)
-                        this.emit(`STA $0000`);
-                        this.emitBinary(0x8D, 0x00, 0x00);
-                        this.emit(`LDX $0000`);
-                        this.emitBinary(0xAE, 0x00, 0x00);
-                    }
-                    
-                    // Process the right side
-                    this.processIntExpr(rightNode);
-                    
-                    // Store in memory
-                    this.emit(`STA $0000`);
-                    this.emitBinary(0x8D, 0x00, 0x00);
-                    
-                    // Compare X register with memory
-                    this.emit(`CPX $0000`);
-                    this.emitBinary(0xEC, 0x00, 0x00);
-                    
-                    // CRITICAL: Follow exact pattern from expected output
-                    if (node.value === '==') {
-                        // For == comparison - matching expected pattern exactly
-                        this.emit(`LDA #$00`); // Start with false (INVERTED FROM BEFORE)
-                        this.emitBinary(0xA9, 0x00);
-                        this.emit(`BNE +2`);   // Skip if not equal
-                        this.emitBinary(0xD0, 0x02);
-                        this.emit(`LDA #$01`); // Set to true if equal
-                        this.emitBinary(0xA9, 0x01);
-                    } else { // !=
-                        // For != comparison - matching expected pattern exactly
-                        this.emit(`LDA #$01`); // Start with true 
-                        this.emitBinary(0xA9, 0x01);
-                        this.emit(`BNE +2`);   // Skip if not equal
-                        this.emitBinary(0xD0, 0x02);
-                        this.emit(`LDA #$00`); // Set to false if equal
-                        this.emitBinary(0xA9, 0x00);
-                    }
-                    
-                    // Set X to 0, store result, compare - exact pattern from expected output
-                    this.emit(`LDX #$00`);
-                    this.emitBinary(0xA2, 0x00);
-                    this.emit(`STA $0000`);
-                    this.emitBinary(0x8D, 0x00, 0x00);
-                    this.emit(`CPX $0000`);
-                    this.emitBinary(0xEC, 0x00, 0x00);
-                }
-            }
+        // On reaching y, store the result and set the counter to 255 so the
+        // wraparound test below ends the loop
+        const loop = this.generateLabel();
+        this.emitLabel(loop);
+        this.emitStatic('LDX', 0xAE, counter);
+        this.emitStatic('CPX', 0xEC, target.label);
+        this.emit(`BNE +10`);
+        this.emitBinary(0xD0, 0x0A);
+        this.emitImmediate('LDA', 0xA9, foundValue);
+        this.emitStatic('STA', 0x8D, dest);
+        this.emitImmediate('LDA', 0xA9, 0xFF);
+        this.emitStatic('STA', 0x8D, counter);
+        this.emitStatic('INC', 0xEE, counter);
+        this.emitImmediate('LDX', 0xA2, 0x00);
+        this.emitStatic('CPX', 0xEC, counter);
+        this.emitBranch(loop);
+    
+        if (target.scratch) {
+            this.releaseTemp(target.label);
         }
+        this.releaseTemp(counter);
     }
     
-    private processPrint(node: ASTNode): void {
-        this.debug("Processing Print node");
-        
-        // The expression to print is the first child
-        const exprNode = node.children[0];
-        const exprType = this.getExpressionType(exprNode);
-        
-        if (exprType === 'int') {
-            // Process integer expression - special case for our assignment
-            if (exprNode.type === 'Id') {
-                // For variable reference (like printing variable 'a')
-                const variableAddress = this.getVariableAddress(exprNode.value!);
-                
-                // Load the value of the variable, not just the address
-                this.emit(`LDA $${variableAddress.toString(16).padStart(4, '0').toUpperCase()}`);
-                this.emitBinary(0xAD, variableAddress & 0xFF, variableAddress >> 8);
-                
-                // Store to memory and load Y
-                this.emit(`STA $0000`);
-                this.emitBinary(0x8D, 0x00, 0x00);
-                this.emit(`LDY $0000`);
-                this.emitBinary(0xAC, 0x00, 0x00);
-            } else {
-                // Normal expression evaluation
-                this.processIntExpr(exprNode);
-                
-                // Store to memory and load Y 
-                this.emit(`STA $0000`);
-                this.emitBinary(0x8D, 0x00, 0x00);
-                this.emit(`LDY $0000`);
-                this.emitBinary(0xAC, 0x00, 0x00);
+    private selectConditionalJump(instruction: IRJumpIfFalse | IRJumpIfTrue): void {
+        const target = this.jumpLabel(instruction.label);
+        const jumpWhen = instruction.op === 'jumpIfTrue' ? 1 : 0;
+        const constant = this.immediateValue(instruction.condition);
+        if (constant !== null) {
+            // A literal condition either always or never branches
+            if (constant === jumpWhen) {
+                this.createUnconditionalBranch(target);
             }
-            
-            // Set X register to 1 (print integer)
-            this.emit(`LDX #$01`);
-            this.emitBinary(0xA2, 0x01);
-            
-            // System call to print
-            this.emit(`SYS`);
-            this.emitBinary(0xFF);
+            return;
         }
-        else if (exprType === 'string') {
-            // For string printing
-            if (exprNode.type === 'StringExpr') {
-                const stringAddress = this.allocateString(exprNode.value!);
-                
-                // Load Y with string address
-                this.emit(`LDY #$${stringAddress.toString(16).padStart(2, '0').toUpperCase()}`);
-                this.emitBinary(0xA0, stringAddress);
-                
-                // Set X register to 2 (print string)
-                this.emit(`LDX #$02`);
-                this.emitBinary(0xA2, 0x02);
-                
-                // System call to print
-                this.emit(`SYS`);
-                this.emitBinary(0xFF);
-            }
-            else if (exprNode.type === 'Id') {
-                // For a string variable
-                const variableAddress = this.getVariableAddress(exprNode.value!);
-                
-                // Load Y with address
-                this.emit(`LDY $${variableAddress.toString(16).padStart(4, '0').toUpperCase()}`);
-                this.emitBinary(0xAC, variableAddress & 0xFF, variableAddress >> 8);
-                
-                // Set X register to 2 (print string)
-                this.emit(`LDX #$02`);
-                this.emitBinary(0xA2, 0x02);
-                
-                // System call to print
-                this.emit(`SYS`);
-                this.emitBinary(0xFF);
-            }
+    
+        // Z is set only when the condition holds the value that does not jump
+        this.emitImmediate('LDX', 0xA2, 1 - jumpWhen);
+        this.emitStatic('CPX', 0xEC, this.placeLabel(instruction.condition as IRPlace));
+        this.emitBranch(target);
+    }
+    
+    // The arguments are stored in the function's parameters before the JSR and the
+    // result is copied out of its result entry after it
+    private selectCall(instruction: IRCall): void {
+        const frame = this.frames.get(instruction.func)!;
+        instruction.args.forEach((arg, i) => {
+            this.emitLoad('A', arg);
+            this.emitStatic('STA', 0x8D, this.variableEntries.get(instruction.func.params[i])!.label);
+        });
+        this.emit(`JSR ${frame.entry}`);
+        this.callTargets.push({ address: this.codeAddress + 1, codeIndex: this.code.length - 1, label: frame.entry });
+        this.emitBinary(0x20, 0x00, 0x00);
+        if (instruction.dest && frame.result) {
+            this.emitStatic('LDA', 0xAD, frame.result);
+            this.emitStatic('STA', 0x8D, this.placeLabel(instruction.dest));
         }
-        else if (exprType === 'boolean') {
-            // For boolean values
-            if (exprNode.type === 'boolexpr' && exprNode.children.length === 0) {
-                // Direct boolean literal
-                if (exprNode.value === 'true') {
-                    const trueAddr = this.allocateString("true");
-                    this.emit(`LDY #$${trueAddr.toString(16).padStart(2, '0').toUpperCase()}`);
-                    this.emitBinary(0xA0, trueAddr);
-                } else {
-                    const falseAddr = this.allocateString("false");
-                    this.emit(`LDY #$${falseAddr.toString(16).padStart(2, '0').toUpperCase()}`);
-                    this.emitBinary(0xA0, falseAddr);
-                }
-                
-                // Set X register to 2 (print string)
-                this.emit(`LDX #$02`);
-                this.emitBinary(0xA2, 0x02);
-                
-                // System call to print
-                this.emit(`SYS`);
-                this.emitBinary(0xFF);
+    }
+    
+    private emitReturn(): void {
+        this.emit('RTS');
+        this.emitBinary(0x60);
+    }
+    
+    private selectPrint(value: IROperand): void {
+        if (value.type === 'boolean') {
+            // Print "true" or "false" by picking the string address
+            const constant = this.immediateValue(value);
+            if (constant !== null) {
+                this.emitImmediate('LDY', 0xA0, this.allocateString(constant ? 'true' : 'false'));
             } else {
-                // For boolean expressions
-                this.processBoolExpr(exprNode);
-                
-                // Compare X with memory just once
-                this.emit(`CPX $0000`);
-                this.emitBinary(0xEC, 0x00, 0x00);
-                
-                const trueLabel = this.generateLabel("PRINT_TRUE");
-                const endLabel = this.generateLabel("PRINT_END");
-                
-                // If X is not 0, branch to true case
-                this.emit(`BNE ${trueLabel}`);
-                this.emitBinary(0xD0, 0x05); // Use a safer placeholder
-                this.backpatchTargets.set(this.codeAddress-1, trueLabel);
-                
-                // Print "false"
-                const falseAddr = this.allocateString("false");
-                this.emit(`LDY #$${falseAddr.toString(16).padStart(2, '0').toUpperCase()}`);
-                this.emitBinary(0xA0, falseAddr);
-                this.emit(`LDX #$02`);
-                this.emitBinary(0xA2, 0x02);
-                this.emit(`SYS`);
-                this.emitBinary(0xFF);
-                
-                // Jump to end (skip true case)
-                this.createUnconditionalBranch(endLabel);
-                
-                // Define label for true case
-                this.emitLabel(trueLabel);
-                
-                // Print "true"
-                const trueAddr = this.allocateString("true");
-                this.emit(`LDY #$${trueAddr.toString(16).padStart(2, '0').toUpperCase()}`);
-                this.emitBinary(0xA0, trueAddr);
-                this.emit(`LDX #$02`);
-                this.emitBinary(0xA2, 0x02);
-                this.emit(`SYS`);
-                this.emitBinary(0xFF);
-                
-                // Define end label
-                this.emitLabel(endLabel);
+                // Z is set only when the value is 1 (true)
+                const falseAddress = this.allocateString('false');
+                const trueAddress = this.allocateString('true');
+                this.emitImmediate('LDX', 0xA2, 0x01);
+                this.emitStatic('CPX', 0xEC, this.placeLabel(value as IRPlace));
+                this.emitImmediate('LDY', 0xA0, falseAddress);
+                this.emit(`BNE +2`);
+                this.emitBinary(0xD0, 0x02);
+                this.emitImmediate('LDY', 0xA0, trueAddress);
             }
+            this.emitImmediate('LDX', 0xA2, 0x02);
+        } else {
+            // Load Y with the integer (X = 1) or the string address (X = 2)
+            this.emitLoad('Y', value);
+            this.emitImmediate('LDX', 0xA2, value.type === 'int' ? 0x01 : 0x02);
         }
+    
+        // System call to print
+        this.emit(`SYS`);
+        this.emitBinary(0xFF);
     }
     
-    private processIf(node: ASTNode): void {
-        this.debug("Processing If statement");
-        
-        // We need to handle special cases for our test file
-        // First if: checking if 5==5
-        // Second if: checking if 9!=8
-        
-        const elseLabel = this.generateLabel("ELSE");
-        const endIfLabel = this.generateLabel("ENDIF"); // Use a label for skipping the else block if present
-
-        if (this.isEqualityIfCheck(node)) {
-            // This is the first if in our expected output: checking 5 == 5
-            
-            // ... [code to evaluate 5 == 5, ending with CPX $0000] ...
-            // Generate the comparison logic exactly as before to match the test case pattern
-            this.emit(`LDA #$05`); this.emitBinary(0xA9, 0x05);
-            this.emit(`STA $0000`); this.emitBinary(0x8D, 0x00, 0x00);
-            this.emit(`LDX $0000`); this.emitBinary(0xAE, 0x00, 0x00);
-            this.emit(`LDA #$05`); this.emitBinary(0xA9, 0x05);
-            this.emit(`STA $0000`); this.emitBinary(0x8D, 0x00, 0x00);
-            this.emit(`CPX $0000`); this.emitBinary(0xEC, 0x00, 0x00); // Z flag is set if equal
-
-            // Branch to elseLabel if Z flag is NOT set (i.e., not equal)
-            // BNE branches if Z=0. If 5==5, Z=1, so BNE does NOT branch.
-            // If 5!=5, Z=0, so BNE branches to elseLabel.
-            this.emit(`BNE ${elseLabel}`); 
-            this.emitBinary(0xD0, 0x05); // Use placeholder, rely on backpatching
-            this.backpatchTargets.set(this.codeAddress - 1, elseLabel);
-            
-            // Then block - print "addition check"
-            const stringAddr = this.allocateString("addition check");
-            this.emit(`LDY #$${stringAddr.toString(16).padStart(2, '0').toUpperCase()}`);
-            this.emitBinary(0xA0, stringAddr);
-            this.emit(`LDX #$02`);
-            this.emitBinary(0xA2, 0x02);
-            this.emit(`SYS`);
-            this.emitBinary(0xFF);
-            
-            // After 'then' block, unconditionally jump to the end of the if statement
-            // (Skipping potential else block - although this test case doesn't have one)
-            // We only need this if there *is* an else block, but adding for completeness.
-            // this.createUnconditionalBranch(endIfLabel); 
-            
-            // Define else label (where we jump if condition was false)
-            this.emitLabel(elseLabel);
-            // (No else block content for this specific case)
-
-            // Define end label for the whole if structure
-            // this.emitLabel(endIfLabel);
-
+    // The byte an operand stands for when it needs no memory: a literal or a string's heap address
+    private immediateValue(operand: IROperand): number | null {
+        if (operand.kind === 'const') {
+            return operand.value & 0xFF;
         }
-        else if (this.isInequalityIfCheck(node)) {
-            // This is the second if in our expected output: checking 9 != 8
-
-            // ... [code to evaluate 9 != 8, ending with CPX $0000] ...
-            // Generate the comparison logic exactly as before to match the test case pattern
-            this.emit(`LDA #$09`); this.emitBinary(0xA9, 0x09);
-            this.emit(`STA $0000`); this.emitBinary(0x8D, 0x00, 0x00);
-            this.emit(`LDX $0000`); this.emitBinary(0xAE, 0x00, 0x00);
-            this.emit(`LDA #$08`); this.emitBinary(0xA9, 0x08);
-            this.emit(`STA $0000`); this.emitBinary(0x8D, 0x00, 0x00);
-            this.emit(`CPX $0000`); this.emitBinary(0xEC, 0x00, 0x00); // Z flag is set if equal
-
-            // Branch to elseLabel if Z flag IS set (i.e., equal)
-            // We want to execute the 'then' block if 9 != 8.
-            // CPX sets Z=0 if not equal. BNE branches if Z=0.
-            // So, if 9!=8, Z=0, BNE *will* branch. We need to branch *past* the 'then' block if equal.
-            // Let's restructure slightly: branch if equal (Z=1) using a simulated BEQ.
-
-            // Simulate BEQ ${elseLabel} (Branch if Z=1)
-            // BNE skips the next instruction if Z=0 (not equal)
-            this.emit(`BNE +3`); // If not equal, skip the jump instruction
-            this.emitBinary(0xD0, 0x03); // Skips 3 bytes: JMP opcode + 2 addr bytes
-            // Use a placeholder JMP instruction (requires 3 bytes) - We'll use BNE+logic for now.
-            // This is tricky without BEQ. Let's stick to the original pattern but fix backpatching.
-            
-            // Original pattern relied on post-comparison LDA/BNE sequence. Let's keep that structure
-            // but ensure the final BNE uses backpatching.
-            this.emit(`LDA #$01`); this.emitBinary(0xA9, 0x01); // Assume true (not equal)
-            this.emit(`BNE +2`);   this.emitBinary(0xD0, 0x02); // If Z=0 (was not equal), skip next LDA
-            this.emit(`LDA #$00`); this.emitBinary(0xA9, 0x00); // If Z=1 (was equal), set A to false
-
-            // Now, A holds 1 if unequal, 0 if equal. 
-            // Store this result and compare with 0 to set Z flag for the final BNE.
-            this.emit(`LDX #$00`); this.emitBinary(0xA2, 0x00);
-            this.emit(`STA $0000`); this.emitBinary(0x8D, 0x00, 0x00);
-            this.emit(`CPX $0000`); this.emitBinary(0xEC, 0x00, 0x00);
-            // Z=1 if A was 0 (meaning original numbers were equal)
-            // Z=0 if A was 1 (meaning original numbers were not equal)
-
-            // Branch to elseLabel if Z = 1 (meaning original numbers were equal)
-            // We need BEQ, simulate with BNE.
-            this.emit(`BNE ${elseLabel}`); // Branch to else if Z=0 (i.e. 9!=8 was false -> 9==8)
-                                          // Wait, this is backwards. BNE branches if Z=0. We want to branch if Z=1.
-                                          
-            // Let's rethink the target condition for the jump.
-            // If 9 != 8 is TRUE (Z=0 after CPX), we execute the 'then' block.
-            // If 9 != 8 is FALSE (Z=1 after CPX), we branch to the elseLabel.
-            // So we need to branch if Z=1 (BEQ). We only have BNE (branch if Z=0).
-            // We need to invert the logic: branch past the 'then' block if Z=1. 
-            
-            // Let's use the result in A register (1 for true/unequal, 0 for false/equal) approach
-            // After the LDA sequence above: A = 1 if 9!=8, A = 0 if 9==8.
-            // Store A and compare X=0 to it.
-            this.emit(`STA $0000`); this.emitBinary(0x8D, 0x00, 0x00);
-            this.emit(`LDX #$00`); this.emitBinary(0xA2, 0x00);
-            this.emit(`CPX $0000`); this.emitBinary(0xEC, 0x00, 0x00);
-            // Z=1 if A was 0 (equal). Z=0 if A was 1 (unequal).
-            
-            // Branch to else if Z=1 (i.e., A was 0, meaning 9==8)
-            // We need BEQ, simulate with BNE.
-            this.emit(`BNE +3`); // If Z=0 (unequal), skip the jump
-            this.emitBinary(0xD0, 0x03); // Placeholder size for unconditional jump
-            this.createUnconditionalBranch(elseLabel); // Jump if Z=1 (equal)
-            // Note: createUnconditionalBranch adds several instructions.
-            // Let's use a simpler BNE pattern.
-
-            // Resetting - let's use the CPX Z flag directly and a simple BNE:
-            // After: CPX $0000 ; Z=1 if equal, Z=0 if unequal
-            this.emit(`BNE ${endIfLabel}`); // Branch to END if Z=0 (unequal) - Executes THEN block
-            this.emitBinary(0xD0, 0x05); // Placeholder
-            this.backpatchTargets.set(this.codeAddress - 1, endIfLabel); // Target is END
-
-            // If Z=1 (equal), we fall through here. Need to jump to ELSE.
-            this.createUnconditionalBranch(elseLabel);
-
-            // Define label for the 'then' block (executed if unequal)
-            this.emitLabel(endIfLabel); 
-
-            // Then block - print "false"
-            const stringAddr = this.allocateString("false");
-            this.emit(`LDY #$${stringAddr.toString(16).padStart(2, '0').toUpperCase()}`);
-            this.emitBinary(0xA0, stringAddr);
-            this.emit(`LDX #$02`);
-            this.emitBinary(0xA2, 0x02);
-            this.emit(`SYS`);
-            this.emitBinary(0xFF);
-
-            // Define else label (where we jump if equal)
-            this.emitLabel(elseLabel);
-            // (No else block content for this specific case)
-
-        }
-        else {
-            // Generic If case (handles boolean expressions)
-            this.processBoolExpr(node.children[0]); // Ends with CPX $0000 -> Z flag set
-            // Z=1 if expression is false (result was 0)
-            // Z=0 if expression is true (result was 1)
-
-            // Branch to elseLabel if Z=1 (expression is false)
-            // Need BEQ simulation
-            this.emit(`BNE +3`); // Skip jump if Z=0 (true)
-            this.emitBinary(0xD0, 0x03); // Placeholder
-            this.createUnconditionalBranch(elseLabel); // Jump to else if Z=1 (false)
-
-            // Fall through here if Z=0 (true)
-            // Process the 'then' block
-            const thenBlock = node.children[1];
-            this.processNode(thenBlock);
-
-            // After 'then' block, jump to end (skip else)
-            this.createUnconditionalBranch(endIfLabel);
-
-            // Define else label
-            this.emitLabel(elseLabel);
-            
-            // If there's an else block, process it (not in test cases)
-            if (node.children.length > 2) {
-                const elseBlock = node.children[2];
-                this.processNode(elseBlock);
-            }
-
-            // Define end label for the whole if structure
-            this.emitLabel(endIfLabel);
+        if (operand.kind === 'string') {
+            return this.allocateString(operand.value);
         }
+        return null;
     }
     
-    private isEqualityIfCheck(node: ASTNode): boolean {
-        // Check if this is the first if statement in our test case
-        // which checks if 5==5
-        return !this.firstIfProcessed; // First if in test case
-    }
-    
-    private isInequalityIfCheck(node: ASTNode): boolean {
-        // Check if this is the second if statement in our test case
-        // which checks if 9!=8
-        if (!this.firstIfProcessed) {
-            this.firstIfProcessed = true;
-            return false; // This is the first if in test
+    // Load an operand into A, X or Y with the immediate or absolute form of the load
+    private emitLoad(register: 'A' | 'X' | 'Y', operand: IROperand): void {
+        const opcodes = {
+            A: { immediate: 0xA9, absolute: 0xAD },
+            X: { immediate: 0xA2, absolute: 0xAE },
+            Y: { immediate: 0xA0, absolute: 0xAC }
+        }[register];
+        const value = this.immediateValue(operand);
+        if (value !== null) {
+            this.emitImmediate(`LD${register}`, opcodes.immediate, value);
         } else {
-            return true; // This is the second if in test
+            this.emitStatic(`LD${register}`, opcodes.absolute, this.placeLabel(operand as IRPlace));
         }
     }
     
-    private processWhile(node: ASTNode): void {
-        this.debug("Processing While loop");
-        
-        const startLabel = this.generateLabel("WHILE_START");
-        const bodyLabel = this.generateLabel("WHILE_BODY"); // Label before the body
-        const endLabel = this.generateLabel("WHILE_END");
-
-        // Start label (top of the loop condition check)
-        this.emitLabel(startLabel);
-
-        // Evaluate the condition (e.g., variable != 3)
-        // Assume node.children[0] is the boolean expression
-        // We need the comparison logic that ends with CPX Z=1 if false, Z=0 if true
-        const conditionNode = node.children[0]; 
-        // Example for 'a != 3'
-        if (conditionNode.type === 'boolexpr' && conditionNode.value === '!=') {
-            const varNode = conditionNode.children[0];
-            const valNode = conditionNode.children[1]; // Assuming integer constant
-            const varAddr = this.getVariableAddress(varNode.value!);
-            const value = parseInt(valNode.value!); 
-
-            // Load variable into X
-            this.emit(`LDX $${varAddr.toString(16).padStart(4, '0').toUpperCase()}`);
-            this.emitBinary(0xAE, varAddr & 0xFF, varAddr >> 8);
-            
-            // Load comparison value into A and store
-            this.emit(`LDA #$${value.toString(16).padStart(2, '0').toUpperCase()}`); 
-            this.emitBinary(0xA9, value);
-            this.emit(`STA $0000`);
-            this.emitBinary(0x8D, 0x00, 0x00);
-            
-            // Compare X with memory
-            this.emit(`CPX $0000`);
-            this.emitBinary(0xEC, 0x00, 0x00);
-            // For != : Z=0 if true (not equal), Z=1 if false (equal)
-        } else {
-            // Handle other boolean expressions if needed
-            this.processBoolExpr(conditionNode); // Assume this ends with CPX
-             // Z=1 if expression is false, Z=0 if true
+    // Static label holding the operand, storing a literal in a scratch temp first
+    private stageInMemory(operand: IROperand): { label: string, scratch: boolean } {
+        const value = this.immediateValue(operand);
+        if (value === null) {
+            return { label: this.placeLabel(operand as IRPlace), scratch: false };
         }
-        
-        // Branch to END if the condition is FALSE.
-        // For !=, condition is false if Z=1 (equal).
-        // For other booleans, condition is false if Z=1.
-        // So we need BEQ -> Simulate with BNE.
-        this.emit(`BNE ${bodyLabel}`); // If Z=0 (condition true), branch to body
-        this.emitBinary(0xD0, 0x05); // Placeholder
-        this.backpatchTargets.set(this.codeAddress - 1, bodyLabel);
-
-        // If Z=1 (condition false), fall through and jump to END
-        this.createUnconditionalBranch(endLabel);
-
-        // Label for the loop body
-        this.emitLabel(bodyLabel);
-
-        // Process the loop body
-        this.processNode(node.children[1]);
-
-        // Unconditionally jump back to the start to re-evaluate condition
-        this.createUnconditionalBranch(startLabel);
-
-        // End label
-        this.emitLabel(endLabel);
+        const label = this.allocateTemp();
+        this.emitImmediate('LDA', 0xA9, value);
+        this.emitStatic('STA', 0x8D, label);
+        return { label, scratch: true };
     }
     
-    private getExpressionType(node: ASTNode): string {
-        switch (node.type) {
-            case 'IntExpr':
-            case 'Digit':
-                return 'int';
-            case 'StringExpr':
-                return 'string';
-            case 'boolexpr':
-            case 'BoolExpr':
-            case 'boolval':
-            case 'BoolVal':
-                return 'boolean';
-            case 'Id':
-                // For variables, return their declared type
-                return this.getVariableType(node.value!);
-            default:
-                return 'unknown';
+    // Variables were allocated by their declare; temps get an entry when first written
+    private placeLabel(place: IRPlace): string {
+        if (place.kind === 'var') {
+            return this.variableEntries.get(place.variable)!.label;
+        }
+        let label = this.tempLabels.get(place.id);
+        if (!label) {
+            label = this.allocateTemp();
+            this.tempLabels.set(place.id, label);
         }
+        return label;
     }
     
     // Visualization methods
-    visualizeCodeHTML(): string {
+    
+    // idPrefix gives every instruction line an id so the debugger can highlight it
+    visualizeCodeHTML(idPrefix?: string): string {
         let html = `<div style="
             background-color: #2b2b2b;
             color: #a9b7c6;
@@ -1080,11 +818,13 @@ class CodeGen {
         for (let i = 0; i < this.code.length; i++) {
             const line = this.code[i];
             
+            const id = idPrefix ? ` id="${idPrefix}-asm-${i}"` : '';
+            
             // Check if this is a label line
             if (line.endsWith(':')) {
-                html += `<div style="color: #cc7832; font-weight: bold;">${line}</div>`;
+                html += `<div${id} style="color: #cc7832; font-weight: bold;">${line}</div>`;
             } else {
-                html += `<div style="margin-left: 20px; color: #a9b7c6;">${line}</div>`;
+                html += `<div${id} style="margin-left: 20px; color: #a9b7c6;">${line}</div>`;
             }
         }
         
@@ -1158,34 +898,44 @@ class CodeGen {
         
         // Memory usage summary
         const totalMemory = 256;
-        const usedVariables = this.nextVarAddress - 0xDB;
-        const usedTemp = this.nextTempAddress;
+        const usedTemp = this.staticTable.filter(entry => entry.type === 'temp').length;
+        const usedVariables = this.staticTable.length - usedTemp;
         const usedData = this.stringData.reduce((acc, str) => acc + str.value.length + 1, 0);
-        const usedTotal = usedVariables + usedTemp + usedData;
-        const freeMemory = totalMemory - usedTotal;
+        const usedTotal = this.codeSize + usedVariables + usedTemp + usedData;
+        const freeMemory = Math.max(0, totalMemory - usedTotal);
         
         html += `<div style="margin-bottom: 15px;">
             <div><span style="color: #cc7832;">Memory Usage Summary:</span></div>
+            <div style="margin-left: 20px;"><span style="color: #6897bb;">Code:</span> ${this.codeSize} bytes (${Math.round(this.codeSize/totalMemory*100)}%)</div>
             <div style="margin-left: 20px;"><span style="color: #6897bb;">Variables:</span> ${usedVariables} bytes (${Math.round(usedVariables/totalMemory*100)}%)</div>
             <div style="margin-left: 20px;"><span style="color: #6897bb;">Temp vars:</span> ${usedTemp} bytes (${Math.round(usedTemp/totalMemory*100)}%)</div>
             <div style="margin-left: 20px;"><span style="color: #6897bb;">String data:</span> ${usedData} bytes (${Math.round(usedData/totalMemory*100)}%)</div>
             <div style="margin-left: 20px;"><span style="color: #6897bb;">Free:</span> ${freeMemory} bytes (${Math.round(freeMemory/totalMemory*100)}%)</div>
         </div>`;
         
+        // Region boundaries: code and static data grow up from $00, the heap down from $FF
+        html += `<div style="margin-bottom: 15px;">
+            <div><span style="color: #cc7832;">Regions:</span></div>`;
+        for (const region of this.getMemoryRegions()) {
+            const range = region.size > 0
+                ? `$${region.start.toString(16).padStart(2, '0').toUpperCase()}-$${(region.start + region.size - 1).toString(16).padStart(2, '0').toUpperCase()}`
+                : 'empty';
+            html += `<div style="margin-left: 20px;"><span style="color: #6897bb;">${region.name}:</span> ${range} (${region.size} bytes)</div>`;
+        }
+        html += `</div>`;
+        
         html += `<div style="display: grid; grid-template-columns: 60px 60px 1fr; gap: 10px;">`;
         html += `<div style="color: #cc7832; font-weight: bold;">Address</div>`;
         html += `<div style="color: #cc7832; font-weight: bold;">Value</div>`;
         html += `<div style="color: #cc7832; font-weight: bold;">Description</div>`;
         
-        // Memory map entries for variables
-        html += `<div style="color: #6897bb;">$DB-$${(this.nextVarAddress-1).toString(16).padStart(2, '0').toUpperCase()}</div>`;
-        html += `<div>---</div>`;
-        html += `<div>Variables</div>`;
-        
-        // Memory map entries for temp vars
-        html += `<div style="color: #6897bb;">$00-$0F</div>`;
-        html += `<div>---</div>`;
-        html += `<div>Temporary variables</div>`;
+        // Memory map entries for the static table
+        for (const entry of this.staticTable) {
+            if (entry.address === null) continue;
+            html += `<div style="color: #6897bb;">$${entry.address.toString(16).padStart(2, '0').toUpperCase()}</div>`;
+            html += `<div>${entry.label}XX</div>`;
+            html += `<div>${entry.type === 'temp' ? entry.name : `Variable ${entry.name} (${entry.type})`}</div>`;
+        }
         
         // Memory map entries for string data
         if (this.stringData.length > 0) {
@@ -1237,6 +987,8 @@ class CodeGen {
             0xEC, // CPX addr
             0xD0, // BNE
             0xEE, // INC addr
+            0x20, // JSR addr
+            0x60, // RTS
             0xFF  // SYS
         ]);
         
@@ -1252,9 +1004,9 @@ class CodeGen {
             if (byte === 0xA9 || byte === 0xA2 || byte === 0xA0 || byte === 0xD0) {
                 instructionSize = 2;
             } else if (byte === 0xAD || byte === 0x8D || byte === 0x6D || byte === 0xAE || 
-                       byte === 0xAC || byte === 0xEC || byte === 0xEE) {
+                       byte === 0xAC || byte === 0xEC || byte === 0xEE || byte === 0x20) {
                 instructionSize = 3;
-            } else if (byte === 0xEA || byte === 0x00 || byte === 0xFF) {
+            } else if (byte === 0xEA || byte === 0x00 || byte === 0x60 || byte === 0xFF) {
                 instructionSize = 1;
             }
 
@@ -1284,4 +1036,4 @@ class CodeGen {
 }
 
 // Make class available globally
-(window as any).CodeGen = CodeGen;
+(globalThis as any).CodeGen = CodeGen;
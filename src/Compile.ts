@@ -2,194 +2,247 @@ class Compile {
     private sourceCode: string;
     private outputDiv: HTMLDivElement;
     private programCount: number;
+    private language: LanguageLevel;
 
-    constructor(sourceCode: string, outputDiv: HTMLDivElement) {
+    constructor(sourceCode: string, outputDiv: HTMLDivElement, language: LanguageLevel = 'classic') {
         this.sourceCode = sourceCode;
         this.outputDiv = outputDiv;
         this.programCount = 1;
+        this.language = language;
     }
 
     compile(): void {
         this.outputDiv.innerHTML = '';
-        
-        // Split source code into programs by '$'
-        const programs = this.sourceCode.split('$').filter(prog => prog.trim().length > 0);
+
+        // Split source code into programs at each '$' the lexer finds
+        const programs = splitPrograms(this.sourceCode, this.language);
+        const debuggers: MachineDebugger[] = [];
         let fullOutput = '';
-        
+
         for (let i = 0; i < programs.length; i++) {
             const programNum = i + 1;
+            const result = compileProgram(programs[i], { trace: true });
+            const machineDebugger = result.success ? new MachineDebugger(result, `program-${programNum}`) : null;
+            if (machineDebugger) {
+                debuggers.push(machineDebugger);
+            }
             fullOutput += `<h3>Program ${programNum}</h3>`;
-            fullOutput += `<h4>Lexical Analysis</h4>`;
-            
-            // Lexical Analysis
-            // @ts-ignore: Ignore the TS error as Lexer is defined globally
-            const lexer = new Lexer(programs[i] + '$');
-            let tokens: Token[] = [];
-            
-            try {
-                let token: Token;
-                while ((token = lexer.getNextToken()).type !== 'EOF') {
-                    tokens.push(token);
-                    fullOutput += `<div>${lexer.formatToken(token.type, token.value)}</div>`;
-                    
-                    if (lexer.currentErrorMessage) {
-                        fullOutput += lexer.currentErrorMessage;
-                        lexer.currentErrorMessage = '';
-                    }
-                }
-
-                // Check if lexical analysis failed
-                if (lexer.errors.length > 0) {
-                    fullOutput += `<div style="color: red; font-weight: bold;">Lexical analysis failed with ${lexer.errors.length} error(s)</div>`;
-                    fullOutput += '<hr>';
-                    continue; // Move to next program
-                }
-
-                // If lexing succeeded, proceed with parsing
-                fullOutput += `<div style="color: #4CAF50; font-weight: bold;">Lexical analysis completed successfully</div>`;
-                fullOutput += `<h4>Parsing</h4>`;
-
-                const parser = new Parser(tokens);
-                parser.enableDebug((msg) => {
-                    fullOutput += `<div style="color: #666; margin-left: 20px;">PARSER --> Parsing ${msg}</div>`;
-                });
-                
-                const cst = parser.parseProgram();
-                
-                if (parser.getErrors().length > 0) {
-                    // Display parsing errors
-                    fullOutput += parser.getErrors().map(error => 
-                        `<div style="color: red; font-weight: bold;">${error}</div>`
-                    ).join('');
-                    fullOutput += `<div style="color: red; font-weight: bold;">Parsing failed</div>`;
-                    fullOutput += '<hr>';
-                    continue; // Move to next program
-                } else if (cst) {
-                    // Display successful parse and CST
-                    fullOutput += `<div style="color: #4CAF50; font-weight: bold;">Parsing completed successfully</div>`;
-                    fullOutput += `<h4>Concrete Syntax Tree</h4>`;
-                    fullOutput += `<pre style="
-                        background-color: #2b2b2b;
-                        color: #a9b7c6;
-                        padding: 15px;
-                        border-radius: 5px;
-                        font-family: 'Consolas', monospace;
-                        border: 1px solid #3c3f41;
-                        box-shadow: 0 2px 4px rgba(0,0,0,0.2);
-                        overflow: auto;
-                        max-height: 500px;
-                    ">${Parser.visualizeTree(cst)}</pre>`;
-
-                    // Semantic Analysis
-                    fullOutput += `<h4>Semantic Analysis</h4>`;
-                    const semanticAnalyser = new SemanticAnalyser(tokens);
-                    semanticAnalyser.enableDebug((msg) => {
-                        fullOutput += `<div style="color: #666; margin-left: 20px;">SEMANTIC --> ${msg}</div>`;
-                    });
-
-                    const ast = semanticAnalyser.analyzeProgram();
-
-                    if (semanticAnalyser.getErrors().length > 0) {
-                        // Display semantic errors
-                        fullOutput += semanticAnalyser.getErrors().map(error => 
-                            `<div style="color: red; font-weight: bold;">${error}</div>`
-                        ).join('');
-                        fullOutput += `<div style="color: red; font-weight: bold;">Semantic analysis failed</div>`;
-                        fullOutput += '<hr>';
-                        continue; // Move to next program
-                    }
-
-                    // Only proceed with warnings, hints, and AST if there are no errors
-                    if (semanticAnalyser.getWarnings().length > 0) {
-                        // Display semantic warnings
-                        fullOutput += semanticAnalyser.getWarnings().map(warning => 
-                            `<div style="color: #FFB100; font-weight: bold;">${warning}</div>`
-                        ).join('');
-                    }
-
-                    // Display semantic hints
-                    if (semanticAnalyser.getHints().length > 0) {
-                        fullOutput += semanticAnalyser.getHints().map(hint => 
-                            `<div style="color: #00f2ff; font-weight: bold;">${hint}</div>`
-                        ).join('');
-                    }
-
-                    // Only generate and display AST and symbol table if semantic analysis succeeded
-                    if (ast) {
-                        fullOutput += `<div style="color: #4CAF50; font-weight: bold;">Semantic analysis completed successfully</div>`;
-                        
-                        // Display Symbol Table
-                        fullOutput += `<h4>Symbol Table</h4>`;
-                        const symbolTableData = semanticAnalyser.getSymbolTableData();
-                        if (symbolTableData.length > 0) {
-                            fullOutput += `<pre style="
-                                background-color: #2b2b2b;
-                                color: #a9b7c6;
-                                padding: 15px;
-                                border-radius: 5px;
-                                font-family: 'Consolas', monospace;
-                                border: 1px solid #3c3f41;
-                                box-shadow: 0 2px 4px rgba(0,0,0,0.2);
-                                overflow: auto;
-                                max-height: 500px;
-                            ">${SemanticAnalyser.visualizeSymbolTable(symbolTableData)}</pre>`;
-                        }
-
-                        // Display Abstract Syntax Tree
-                        fullOutput += `<h4>Abstract Syntax Tree</h4>`;
-                        fullOutput += `<pre style="
-                            background-color: #2b2b2b;
-                            color: #a9b7c6;
-                            padding: 15px;
-                            border-radius: 5px;
-                            font-family: 'Consolas', monospace;
-                            border: 1px solid #3c3f41;
-                            box-shadow: 0 2px 4px rgba(0,0,0,0.2);
-                            overflow: auto;
-                            max-height: 500px;
-                        ">${SemanticAnalyser.visualizeAST(ast)}</pre>`;
-                        
-                        // Code Generation Phase
-                        fullOutput += `<h4>Code Generation</h4>`;
-                        const codeGenerator = new CodeGen(ast);
-                        codeGenerator.enableDebug();
-                        
-                        // Enable debug output for code generator
-                        fullOutput += `<div style="color: #666; margin-left: 20px;">CODEGEN --> Starting code generation</div>`;
-                        
-                        // Generate 6502 assembly code
-                        const generatedCode = codeGenerator.generate();
-                        
-                        if (generatedCode.length > 0) {
-                            fullOutput += `<div style="color: #4CAF50; font-weight: bold;">Code generation completed successfully</div>`;
-                            
-                            // Display 6502 Assembly Code with syntax highlighting
-                            fullOutput += `<h4>6502 Assembly Code</h4>`;
-                            fullOutput += codeGenerator.visualizeCodeHTML();
-                            
-                            // Display Binary Machine Code
-                            fullOutput += `<h4>Machine Code</h4>`;
-                            fullOutput += codeGenerator.visualizeBinaryHTML();
-                            
-                            // Display Memory Map
-                            fullOutput += `<h4>Memory Map</h4>`;
-                            fullOutput += codeGenerator.visualizeMemoryHTML();
-                        } else {
-                            fullOutput += `<div style="color: red; font-weight: bold;">Code generation failed</div>`;
-                        }
-                    }
-                }
-
-            } catch (error) {
-                fullOutput += `<div style="color: red; font-weight: bold;">Compiler Error in Program ${programNum}: ${error}</div>`;
+            fullOutput += Compile.renderResultHTML(result, machineDebugger, `program-${programNum}`);
+
+            if (result.fatalError) {
+                fullOutput += `<div style="color: red; font-weight: bold;">Compiler Error in Program ${programNum}: ${result.fatalError}</div>`;
             }
-            
+
             fullOutput += '<hr>';
         }
-        
+
         this.outputDiv.innerHTML = fullOutput;
+
+        // The debugger panels can only be wired up once they are part of the page
+        for (const machineDebugger of debuggers) {
+            machineDebugger.attach(this.outputDiv);
+        }
+    }
+
+    // Render the output of every phase that ran for one program
+    public static renderResultHTML(result: CompileResult, machineDebugger: MachineDebugger | null = null, idPrefix?: string): string {
+        let fullOutput = `<h4>Lexical Analysis</h4>`;
+
+        // Lexical Analysis - each error is shown right after the token it produced
+        const lexerErrors = phaseErrors(result.lexer);
+        let errorIndex = 0;
+        for (const token of result.tokens) {
+            fullOutput += `<div>${Lexer.formatToken(token)}</div>`;
+            if (token.type === 'ERROR' && errorIndex < lexerErrors.length) {
+                fullOutput += formatDiagnosticHTML(lexerErrors[errorIndex++], result.source, true);
+            }
+        }
+
+        // Lexer warnings, such as a last program without '$'
+        fullOutput += diagnosticsWithSeverity(result.lexer.diagnostics, 'warning')
+            .map(warning => formatDiagnosticHTML(warning, result.source)).join('');
+
+        // Check if lexical analysis failed
+        if (lexerErrors.length > 0) {
+            fullOutput += `<div style="color: red; font-weight: bold;">Lexical analysis failed with ${lexerErrors.length} error(s)</div>`;
+            return fullOutput;
+        }
+        if (!result.parser.ran) {
+            return fullOutput;
+        }
+
+        // If lexing succeeded, show the parse
+        fullOutput += `<div style="color: #4CAF50; font-weight: bold;">Lexical analysis completed successfully</div>`;
+        fullOutput += `<h4>Parsing</h4>`;
+        fullOutput += result.parser.trace.map(msg =>
+            `<div style="color: #666; margin-left: 20px;">PARSER --> Parsing ${msg}</div>`
+        ).join('');
+
+        const parserErrors = phaseErrors(result.parser);
+        const parseFailed = parserErrors.length > 0;
+        if (parseFailed) {
+            // Display every parsing error the recovering parser found
+            fullOutput += parserErrors.map(error => formatDiagnosticHTML(error, result.source)).join('');
+            fullOutput += `<div style="color: red; font-weight: bold;">Parsing failed with ${parserErrors.length} error(s)</div>`;
+        }
+        if (!result.cst) {
+            return fullOutput;
+        }
+
+        // Display the CST - partial, with Error nodes, when parsing failed
+        if (!parseFailed) {
+            fullOutput += `<div style="color: #4CAF50; font-weight: bold;">Parsing completed successfully</div>`;
+        }
+        fullOutput += `<h4>Concrete Syntax Tree${parseFailed ? ' (partial)' : ''}</h4>`;
+        fullOutput += `<pre style="
+            background-color: #2b2b2b;
+            color: #a9b7c6;
+            padding: 15px;
+            border-radius: 5px;
+            font-family: 'Consolas', monospace;
+            border: 1px solid #3c3f41;
+            box-shadow: 0 2px 4px rgba(0,0,0,0.2);
+            overflow: auto;
+            max-height: 500px;
+        ">${Parser.visualizeTree(result.cst)}</pre>`;
+
+        if (parseFailed || !result.semantic.ran) {
+            return fullOutput;
+        }
+
+        // Semantic Analysis
+        fullOutput += `<h4>Semantic Analysis</h4>`;
+        fullOutput += result.semantic.trace.map(msg =>
+            `<div style="color: #666; margin-left: 20px;">SEMANTIC --> ${msg}</div>`
+        ).join('');
+
+        const semanticErrors = phaseErrors(result.semantic);
+        if (semanticErrors.length > 0) {
+            // Display semantic errors
+            fullOutput += semanticErrors.map(error => formatDiagnosticHTML(error, result.source)).join('');
+            fullOutput += `<div style="color: red; font-weight: bold;">Semantic analysis failed</div>`;
+            return fullOutput;
+        }
+
+        // Only proceed with warnings, hints, and AST if there are no errors
+        fullOutput += result.semantic.diagnostics.map(diagnostic => formatDiagnosticHTML(diagnostic, result.source)).join('');
+
+        // Only display AST and symbol table if semantic analysis succeeded
+        if (!result.ast) {
+            return fullOutput;
+        }
+        fullOutput += `<div style="color: #4CAF50; font-weight: bold;">Semantic analysis completed successfully</div>`;
+
+        // Display Symbol Table
+        fullOutput += `<h4>Symbol Table</h4>`;
+        if (result.symbols.length > 0) {
+            fullOutput += `<pre style="
+                background-color: #2b2b2b;
+                color: #a9b7c6;
+                padding: 15px;
+                border-radius: 5px;
+                font-family: 'Consolas', monospace;
+                border: 1px solid #3c3f41;
+                box-shadow: 0 2px 4px rgba(0,0,0,0.2);
+                overflow: auto;
+                max-height: 500px;
+            ">${SemanticAnalyser.visualizeSymbolTable(result.symbols)}</pre>`;
+        }
+
+        // Display Abstract Syntax Tree
+        fullOutput += `<h4>Abstract Syntax Tree</h4>`;
+        fullOutput += `<pre style="
+            background-color: #2b2b2b;
+            color: #a9b7c6;
+            padding: 15px;
+            border-radius: 5px;
+            font-family: 'Consolas', monospace;
+            border: 1px solid #3c3f41;
+            box-shadow: 0 2px 4px rgba(0,0,0,0.2);
+            overflow: auto;
+            max-height: 500px;
+        ">${SemanticAnalyser.visualizeAST(result.ast)}</pre>`;
+
+        // What the program should print, straight from the AST
+        const reference = new Interpreter(result.ast).run();
+        fullOutput += `<h4>Interpreter Output</h4>`;
+        fullOutput += `<div style="font-family: 'Consolas', monospace; white-space: pre; margin-left: 20px;">${escapeDiagnosticHTML(reference.stdout)}</div>`;
+        if (reference.error) {
+            fullOutput += `<div style="color: #FFB100; font-weight: bold;">${reference.error}</div>`;
+        }
+
+        // Optimizer passes between semantic analysis and code generation
+        if (result.optimization) {
+            fullOutput += `<h4>Optimization</h4>`;
+            fullOutput += `<div style="color: #666; margin-left: 20px;">OPTIMIZER --> ${Optimizer.formatReport(result.optimization)}</div>`;
+            if (Optimizer.totalChanges(result.optimization.changes) > 0) {
+                fullOutput += `<pre style="
+            background-color: #2b2b2b;
+            color: #a9b7c6;
+            padding: 15px;
+            border-radius: 5px;
+            font-family: 'Consolas', monospace;
+            border: 1px solid #3c3f41;
+            box-shadow: 0 2px 4px rgba(0,0,0,0.2);
+            overflow: auto;
+            max-height: 500px;
+        ">${SemanticAnalyser.visualizeAST(result.optimization.ast)}</pre>`;
+            }
+        }
+
+        // Code Generation Phase
+        fullOutput += `<h4>Code Generation</h4>`;
+        fullOutput += `<div style="color: #666; margin-left: 20px;">CODEGEN --> Starting code generation</div>`;
+
+        const codeGenerator = result.generator;
+        const codegenErrors = phaseErrors(result.codegen);
+        if (codegenErrors.length > 0) {
+            // Display code generation errors
+            fullOutput += codegenErrors.map(error => formatDiagnosticHTML(error, result.source)).join('');
+            fullOutput += `<div style="color: red; font-weight: bold;">Code generation failed</div>`;
+        } else if (codeGenerator && result.assembly.length > 0) {
+            fullOutput += `<div style="color: #4CAF50; font-weight: bold;">Code generation completed successfully</div>`;
+
+            // Display the three-address IR the assembly was selected from
+            if (result.ir) {
+                fullOutput += `<h4>Intermediate Representation</h4>`;
+                fullOutput += `<pre style="
+            background-color: #2b2b2b;
+            color: #a9b7c6;
+            padding: 15px;
+            border-radius: 5px;
+            font-family: 'Consolas', monospace;
+            border: 1px solid #3c3f41;
+            box-shadow: 0 2px 4px rgba(0,0,0,0.2);
+            overflow: auto;
+            max-height: 500px;
+        ">${escapeDiagnosticHTML(IRBuilder.format(result.ir))}</pre>`;
+            }
+
+            // Display 6502 Assembly Code with syntax highlighting
+            fullOutput += `<h4>6502 Assembly Code</h4>`;
+            fullOutput += codeGenerator.visualizeCodeHTML(idPrefix);
+
+            // Display Binary Machine Code
+            fullOutput += `<h4>Machine Code</h4>`;
+            fullOutput += codeGenerator.visualizeBinaryHTML();
+
+            // Display Memory Map
+            fullOutput += `<h4>Memory Map</h4>`;
+            fullOutput += codeGenerator.visualizeMemoryHTML();
+
+            // Step-through debugger for the generated image
+            if (machineDebugger) {
+                fullOutput += `<h4>Debugger</h4>`;
+                fullOutput += machineDebugger.renderHTML();
+            }
+        } else if (!result.fatalError) {
+            fullOutput += `<div style="color: red; font-weight: bold;">Code generation failed</div>`;
+        }
+
+        return fullOutput;
     }
 }
 
 // Make class available globally
-(window as any).Compile = Compile; 
\ No newline at end of file
+(globalThis as any).Compile = Compile;
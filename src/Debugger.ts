@@ -0,0 +1,195 @@
+// Step-through debugger for CodeGen's 256-byte image.
+// renderHTML() produces the panel markup; attach() wires it up once the markup is in the page.
+class MachineDebugger {
+    private binary: number[];
+    private sourceMap: SourceMapEntry[];
+    private sourceLines: string[];
+    private idPrefix: string;
+    private emulator: Emulator;
+    private breakpoints: Set<number> = new Set();
+    private previousMemory: number[];
+    private highlightedLine: HTMLElement | null = null;
+    private root: HTMLElement | null = null;
+
+    constructor(result: CompileResult, idPrefix: string) {
+        this.binary = result.binary;
+        this.sourceMap = result.sourceMap;
+        this.sourceLines = result.source.split('\n');
+        this.idPrefix = idPrefix;
+        this.emulator = new Emulator(this.binary);
+        this.previousMemory = this.emulator.getState().memory;
+    }
+
+    renderHTML(): string {
+        let html = `<div style="
+            background-color: #2b2b2b;
+            color: #a9b7c6;
+            padding: 15px;
+            border-radius: 5px;
+            font-family: 'Consolas', monospace;
+            border: 1px solid #3c3f41;
+            box-shadow: 0 2px 4px rgba(0,0,0,0.2);
+            overflow: auto;
+            max-height: 500px;
+        ">`;
+
+        // Controls
+        html += `<div style="margin-bottom: 10px;">`;
+        html += `<button id="${this.idPrefix}-step" style="padding: 4px 10px; font-size: 12px;">STEP</button> `;
+        html += `<button id="${this.idPrefix}-run" style="padding: 4px 10px; font-size: 12px;">RUN</button> `;
+        html += `<button id="${this.idPrefix}-reset" style="padding: 4px 10px; font-size: 12px;">RESET</button>`;
+        html += `</div>`;
+        html += `<div style="margin-bottom: 10px; color: #808080;">Click an instruction in the 6502 listing to toggle a breakpoint.</div>`;
+
+        // Registers, current source line, breakpoints and output
+        html += `<div id="${this.idPrefix}-registers" style="margin-bottom: 5px;"></div>`;
+        html += `<div id="${this.idPrefix}-source" style="margin-bottom: 5px; color: #6A8759;"></div>`;
+        html += `<div id="${this.idPrefix}-breakpoints" style="margin-bottom: 5px; color: #cc7832;"></div>`;
+        html += `<div id="${this.idPrefix}-stdout" style="margin-bottom: 10px;"></div>`;
+
+        // Memory grid, 16 bytes per row
+        html += `<div style="display: grid; grid-template-columns: 40px repeat(16, 24px); gap: 2px;">`;
+        for (let row = 0; row < 0x100; row += 16) {
+            html += `<div style="color: #6897bb;">${MachineDebugger.hex(row)}</div>`;
+            for (let i = row; i < row + 16; i++) {
+                html += `<div id="${this.idPrefix}-mem-${i}" style="color: #9876aa;">${MachineDebugger.hex(this.binary[i] || 0)}</div>`;
+            }
+        }
+        html += `</div>`;
+
+        html += `</div>`;
+        return html;
+    }
+
+    // Wire the controls and listing lines rendered inside root
+    attach(root: HTMLElement): void {
+        this.root = root;
+        this.element('step')?.addEventListener('click', () => this.step());
+        this.element('run')?.addEventListener('click', () => this.run());
+        this.element('reset')?.addEventListener('click', () => this.reset());
+
+        // Clicking an instruction toggles a breakpoint at its address
+        for (const entry of this.sourceMap) {
+            const line = this.element(`asm-${entry.codeIndex}`);
+            if (line) {
+                line.style.cursor = 'pointer';
+                line.addEventListener('click', () => this.toggleBreakpoint(entry.address));
+            }
+        }
+
+        this.update();
+    }
+
+    step(): void {
+        this.previousMemory = this.emulator.getState().memory;
+        this.emulator.step();
+        this.update();
+    }
+
+    // Run until a breakpoint, BRK, a fault or the cycle limit
+    run(): void {
+        this.previousMemory = this.emulator.getState().memory;
+        while (this.emulator.step()) {
+            if (this.breakpoints.has(this.emulator.getState().programCounter)) {
+                break;
+            }
+        }
+        this.update();
+    }
+
+    reset(): void {
+        this.emulator = new Emulator(this.binary);
+        this.previousMemory = this.emulator.getState().memory;
+        this.update();
+    }
+
+    toggleBreakpoint(address: number): void {
+        if (this.breakpoints.has(address)) {
+            this.breakpoints.delete(address);
+        } else {
+            this.breakpoints.add(address);
+        }
+
+        for (const entry of this.sourceMap) {
+            const line = this.element(`asm-${entry.codeIndex}`);
+            if (line && entry.address === address) {
+                line.style.borderLeft = this.breakpoints.has(address) ? '3px solid red' : '';
+            }
+        }
+        this.update();
+    }
+
+    // Refresh registers, memory and the highlighted instruction from the emulator state
+    private update(): void {
+        const state = this.emulator.getState();
+
+        const registers = this.element('registers');
+        if (registers) {
+            let status = state.halted ? 'Halted (BRK)' : 'Ready';
+            if (state.error) {
+                status = `<span style="color: red;">${state.error}</span>`;
+            }
+            registers.innerHTML =
+                `<span style="color: #cc7832;">PC</span> ${MachineDebugger.hex(state.programCounter)} ` +
+                `<span style="color: #cc7832;">A</span> ${MachineDebugger.hex(state.accumulator)} ` +
+                `<span style="color: #cc7832;">X</span> ${MachineDebugger.hex(state.xRegister)} ` +
+                `<span style="color: #cc7832;">Y</span> ${MachineDebugger.hex(state.yRegister)} ` +
+                `<span style="color: #cc7832;">Z</span> ${state.zeroFlag ? 1 : 0} ` +
+                `<span style="color: #cc7832;">SP</span> ${MachineDebugger.hex(state.stackPointer)} ` +
+                `<span style="color: #cc7832;">Cycles</span> ${state.cycles} | ${status}`;
+        }
+
+        const entry = this.sourceMap.find(e => e.address === state.programCounter);
+        const source = this.element('source');
+        if (source) {
+            source.textContent = entry && entry.line !== null
+                ? `Source line ${entry.line}: ${(this.sourceLines[entry.line - 1] || '').trim()}`
+                : 'Source line: -';
+        }
+
+        const breakpoints = this.element('breakpoints');
+        if (breakpoints) {
+            const addresses = Array.from(this.breakpoints).sort((a, b) => a - b).map(a => MachineDebugger.hex(a));
+            breakpoints.textContent = `Breakpoints: ${addresses.length > 0 ? addresses.join(', ') : 'none'}`;
+        }
+
+        const stdout = this.element('stdout');
+        if (stdout) {
+            stdout.textContent = `Output: ${state.stdout}`;
+        }
+
+        // Memory cells - changed bytes in green, the program counter outlined
+        for (let i = 0; i < 0x100; i++) {
+            const cell = this.element(`mem-${i}`);
+            if (!cell) continue;
+            cell.textContent = MachineDebugger.hex(state.memory[i]);
+            cell.style.color = state.memory[i] !== this.previousMemory[i] ? '#39ff14' : '#9876aa';
+            cell.style.outline = i === state.programCounter ? '1px solid #00f2ff' : '';
+        }
+
+        // Highlight the instruction about to execute in the assembly listing
+        if (this.highlightedLine) {
+            this.highlightedLine.style.backgroundColor = '';
+            this.highlightedLine = null;
+        }
+        if (entry && !state.halted) {
+            const line = this.element(`asm-${entry.codeIndex}`);
+            if (line) {
+                line.style.backgroundColor = '#214283';
+                this.highlightedLine = line;
+            }
+        }
+    }
+
+    private element(name: string): HTMLElement | null {
+        if (!this.root) return null;
+        return this.root.querySelector(`#${this.idPrefix}-${name}`) as HTMLElement | null;
+    }
+
+    private static hex(value: number): string {
+        return value.toString(16).padStart(2, '0').toUpperCase();
+    }
+}
+
+// Make class available globally
+(globalThis as any).MachineDebugger = MachineDebugger;
@@ -0,0 +1,167 @@
+// Phase that reported a diagnostic
+type DiagnosticPhase = 'lexer' | 'parser' | 'semantic' | 'codegen';
+
+type DiagnosticSeverity = 'error' | 'warning' | 'hint';
+
+// A position in the program's source text
+interface SourcePosition {
+    offset: number; // Index into the source string
+    line: number;
+    column: number;
+}
+
+// Half-open span of source text: start is the first character, end the one after the last
+interface SourceRange {
+    start: SourcePosition;
+    end: SourcePosition;
+}
+
+// One problem reported by a compiler phase. Codes are stable so tools can filter on them:
+// E1xx/W1xx lexer, E2xx parser, E3xx/W3xx/H3xx semantic analysis, E4xx code generation.
+interface Diagnostic {
+    phase: DiagnosticPhase;
+    severity: DiagnosticSeverity;
+    code: string;
+    message: string;
+    start: SourcePosition | null; // null when the problem has no location in the source
+    end: SourcePosition | null;
+    hints: string[];              // Suggestions shown underneath the message
+}
+
+// Prefix each phase has always printed in front of its messages
+const DIAGNOSTIC_PREFIXES: { [phase: string]: string } = {
+    lexer: 'LEXER --> |',
+    parser: 'PARSER -->',
+    semantic: 'SEMANTIC -->',
+    codegen: 'CODEGEN -->'
+};
+
+const DIAGNOSTIC_LABELS: { [severity: string]: string } = {
+    error: 'Error',
+    warning: 'Warning',
+    hint: 'Hint'
+};
+
+function createDiagnostic(
+    phase: DiagnosticPhase,
+    severity: DiagnosticSeverity,
+    code: string,
+    message: string,
+    start: SourcePosition | null,
+    end: SourcePosition | null = start,
+    hints: string[] = []
+): Diagnostic {
+    return { phase, severity, code, message, start, end, hints };
+}
+
+function diagnosticsWithSeverity(diagnostics: Diagnostic[], severity: DiagnosticSeverity): Diagnostic[] {
+    return diagnostics.filter(diagnostic => diagnostic.severity === severity);
+}
+
+// "at line 3:4" (the lexer has always said "on line")
+function formatDiagnosticPosition(diagnostic: Diagnostic): string {
+    if (!diagnostic.start) {
+        return diagnostic.phase === 'parser' ? ' at end of file' : '';
+    }
+    const preposition = diagnostic.phase === 'lexer' ? 'on' : 'at';
+    return ` ${preposition} line ${diagnostic.start.line}:${diagnostic.start.column}`;
+}
+
+// One rendered line of a diagnostic; the kind decides how the web output styles it
+interface DiagnosticLine {
+    kind: 'message' | 'source' | 'marker' | 'hint';
+    text: string;
+}
+
+// The message line followed by one line per hint, e.g.
+// SEMANTIC --> Error: Variable 'b' not declared at line 3:5
+// SEMANTIC --> Hint: Consider declaring the variable before using it: 'int b;' at line 3:5
+//
+// Given the program's source, the offending line is quoted with the span underlined instead:
+// SEMANTIC --> Error: Variable 'b' not declared at line 3:5
+//   |
+// 3 |     b = 1
+//   |     ^
+//   = hint: Consider declaring the variable before using it: 'int b;'
+function buildDiagnosticLines(diagnostic: Diagnostic, source: string | null): DiagnosticLine[] {
+    const prefix = DIAGNOSTIC_PREFIXES[diagnostic.phase];
+    const position = formatDiagnosticPosition(diagnostic);
+    const lines: DiagnosticLine[] = [{
+        kind: 'message',
+        text: `${prefix} ${DIAGNOSTIC_LABELS[diagnostic.severity]}: ${diagnostic.message}${position}`
+    }];
+
+    if (source === null || !diagnostic.start) {
+        for (const hint of diagnostic.hints) {
+            lines.push({ kind: 'hint', text: `${prefix} Hint: ${hint}${position}` });
+        }
+        return lines;
+    }
+
+    const start = diagnostic.start;
+    const lineStart = start.offset === 0 ? 0 : source.lastIndexOf('\n', start.offset - 1) + 1;
+    const lineEnd = source.indexOf('\n', lineStart) === -1 ? source.length : source.indexOf('\n', lineStart);
+    const text = source.slice(lineStart, lineEnd).replace(/\r$/, '');
+
+    // Spans that run past the end of the line are underlined up to it; empty spans get one caret
+    const endOffset = diagnostic.end ? Math.min(diagnostic.end.offset, lineStart + text.length) : start.offset;
+    const width = Math.max(1, endOffset - start.offset);
+    // Keep tabs so the carets line up however the terminal expands them
+    const padding = text.slice(0, start.offset - lineStart).replace(/[^\t]/g, ' ');
+    const gutter = ' '.repeat(String(start.line).length);
+
+    lines.push({ kind: 'source', text: `${gutter} |` });
+    lines.push({ kind: 'source', text: `${start.line} | ${text}` });
+    lines.push({ kind: 'marker', text: `${gutter} | ${padding}${'^'.repeat(width)}` });
+    for (const hint of diagnostic.hints) {
+        lines.push({ kind: 'hint', text: `${gutter} = hint: ${hint}` });
+    }
+    return lines;
+}
+
+function formatDiagnosticLines(diagnostic: Diagnostic, source: string | null = null): string[] {
+    return buildDiagnosticLines(diagnostic, source).map(line => line.text);
+}
+
+function formatDiagnosticText(diagnostic: Diagnostic, source: string | null = null): string {
+    return formatDiagnosticLines(diagnostic, source).join('\n');
+}
+
+function escapeDiagnosticHTML(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Same lines as formatDiagnosticText, coloured the way the web output shows each severity.
+// The quoted source keeps its spacing so the carets stay under the span.
+function formatDiagnosticHTML(diagnostic: Diagnostic, source: string | null = null, indent: boolean = false): string {
+    const colors: { [severity: string]: string } = {
+        error: 'red',
+        warning: '#FFB100',
+        hint: '#00f2ff'
+    };
+    const margin = indent ? ' margin-left: 20px;' : '';
+    return buildDiagnosticLines(diagnostic, source).map(line => {
+        const text = escapeDiagnosticHTML(line.text);
+        switch (line.kind) {
+            case 'message':
+                return `<div style="color: ${colors[diagnostic.severity]}; font-weight: bold;${margin}">${text}</div>`;
+            case 'source':
+                return `<div style="color: #a9b7c6; font-family: 'Consolas', monospace; white-space: pre;${margin}">${text}</div>`;
+            case 'marker':
+                return `<div style="color: ${colors[diagnostic.severity]}; font-family: 'Consolas', monospace; white-space: pre; font-weight: bold;${margin}">${text}</div>`;
+            default: {
+                // Hints under a source excerpt line up with it
+                const font = source !== null && diagnostic.start ? ` font-family: 'Consolas', monospace; white-space: pre;` : '';
+                return `<div style="color: ${colors.hint}; font-weight: bold;${font}${margin}">${text}</div>`;
+            }
+        }
+    }).join('');
+}
+
+// Make the diagnostic helpers available globally
+(globalThis as any).createDiagnostic = createDiagnostic;
+(globalThis as any).diagnosticsWithSeverity = diagnosticsWithSeverity;
+(globalThis as any).formatDiagnosticLines = formatDiagnosticLines;
+(globalThis as any).formatDiagnosticText = formatDiagnosticText;
+(globalThis as any).formatDiagnosticHTML = formatDiagnosticHTML;
+(globalThis as any).escapeDiagnosticHTML = escapeDiagnosticHTML;
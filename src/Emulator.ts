@@ -0,0 +1,267 @@
+// Instruction set understood by the emulator: the 6502 subset CodeGen emits
+interface OpcodeInfo {
+    mnemonic: string;
+    size: number;   // Bytes including the opcode
+    cycles: number; // Base cycle count (a taken branch costs one more)
+}
+
+const EMULATOR_OPCODES: { [opcode: number]: OpcodeInfo } = {
+    0xA9: { mnemonic: 'LDA #', size: 2, cycles: 2 },
+    0xAD: { mnemonic: 'LDA', size: 3, cycles: 4 },
+    0x8D: { mnemonic: 'STA', size: 3, cycles: 4 },
+    0x6D: { mnemonic: 'ADC', size: 3, cycles: 4 },
+    0xA2: { mnemonic: 'LDX #', size: 2, cycles: 2 },
+    0xAE: { mnemonic: 'LDX', size: 3, cycles: 4 },
+    0xA0: { mnemonic: 'LDY #', size: 2, cycles: 2 },
+    0xAC: { mnemonic: 'LDY', size: 3, cycles: 4 },
+    0xEA: { mnemonic: 'NOP', size: 1, cycles: 2 },
+    0x00: { mnemonic: 'BRK', size: 1, cycles: 7 },
+    0xEC: { mnemonic: 'CPX', size: 3, cycles: 4 },
+    0xD0: { mnemonic: 'BNE', size: 2, cycles: 2 },
+    0xEE: { mnemonic: 'INC', size: 3, cycles: 6 },
+    0x20: { mnemonic: 'JSR', size: 3, cycles: 6 },
+    0x60: { mnemonic: 'RTS', size: 1, cycles: 6 },
+    0xFF: { mnemonic: 'SYS', size: 1, cycles: 6 }
+};
+
+// Snapshot of the machine between instructions
+interface EmulatorState {
+    accumulator: number;
+    xRegister: number;
+    yRegister: number;
+    zeroFlag: boolean;
+    programCounter: number;
+    stackPointer: number;
+    cycles: number;
+    memory: number[];
+    stdout: string;
+    halted: boolean;
+    error: string | null;
+}
+
+// Outcome of running a memory image
+interface EmulatorResult {
+    stdout: string;
+    memory: number[];
+    cycles: number;
+    halted: boolean;      // True once BRK was executed
+    error: string | null; // Set when execution stopped on a fault or the cycle limit
+}
+
+// Emulates the Alan++ target machine: 256 bytes of memory, A/X/Y registers,
+// a Z flag that only CPX sets, and the FF system call for output.
+// ADC has no carry in this machine, so additions simply wrap at 8 bits.
+// JSR and RTS use a stack page of their own, outside the 256-byte image, like the
+// 6502's stack at $0100-$01FF; the stack pointer starts at $FF and grows down.
+class Emulator {
+    private memory: number[];
+    private accumulator: number = 0;
+    private xRegister: number = 0;
+    private yRegister: number = 0;
+    private zeroFlag: boolean = false;
+    private programCounter: number = 0;
+    private stack: number[] = new Array(0x100).fill(0);
+    private stackPointer: number = 0xFF;
+    private cycles: number = 0;
+    private output: string = '';
+    private halted: boolean = false;
+    private error: string | null = null;
+    private maxCycles: number;
+
+    constructor(binary: number[], maxCycles: number = 100000) {
+        // Copy the image so the caller's array is never modified
+        this.memory = [];
+        for (let i = 0; i < 0x100; i++) {
+            this.memory.push((binary[i] || 0) & 0xFF);
+        }
+        this.maxCycles = maxCycles;
+    }
+
+    // Execute a single instruction, returning false once the machine has stopped
+    step(): boolean {
+        if (this.halted || this.error) {
+            return false;
+        }
+        if (this.cycles >= this.maxCycles) {
+            this.fault(`Cycle limit of ${this.maxCycles} exceeded (possible infinite loop)`);
+            return false;
+        }
+
+        const address = this.programCounter;
+        const opcode = this.memory[address];
+        const info = EMULATOR_OPCODES[opcode];
+        if (!info) {
+            this.fault(`Invalid opcode ${Emulator.hex(opcode)} at ${Emulator.hex(address)}`);
+            return false;
+        }
+        if (address + info.size > 0x100) {
+            this.fault(`Instruction at ${Emulator.hex(address)} runs past the end of memory`);
+            return false;
+        }
+
+        const operand = this.memory[address + 1];
+        const target = operand | (this.memory[address + 2] << 8);
+        this.programCounter = address + info.size;
+        this.cycles += info.cycles;
+
+        switch (opcode) {
+            case 0xA9: // LDA #
+                this.accumulator = operand;
+                break;
+            case 0xAD: // LDA addr
+                this.accumulator = this.read(target);
+                break;
+            case 0x8D: // STA addr
+                this.write(target, this.accumulator);
+                break;
+            case 0x6D: // ADC addr
+                this.accumulator = (this.accumulator + this.read(target)) & 0xFF;
+                break;
+            case 0xA2: // LDX #
+                this.xRegister = operand;
+                break;
+            case 0xAE: // LDX addr
+                this.xRegister = this.read(target);
+                break;
+            case 0xA0: // LDY #
+                this.yRegister = operand;
+                break;
+            case 0xAC: // LDY addr
+                this.yRegister = this.read(target);
+                break;
+            case 0xEA: // NOP
+                break;
+            case 0x00: // BRK
+                this.halted = true;
+                break;
+            case 0xEC: // CPX addr
+                this.zeroFlag = this.xRegister === this.read(target);
+                break;
+            case 0xD0: // BNE - relative branch that wraps around memory
+                if (!this.zeroFlag) {
+                    this.programCounter = (this.programCounter + operand) & 0xFF;
+                    this.cycles++;
+                }
+                break;
+            case 0xEE: // INC addr
+                this.write(target, (this.read(target) + 1) & 0xFF);
+                break;
+            case 0x20: { // JSR addr - push the address of its last byte, high byte first
+                const returnAddress = address + 2;
+                this.push(returnAddress >> 8);
+                this.push(returnAddress & 0xFF);
+                this.jump(target);
+                break;
+            }
+            case 0x60: { // RTS - pull the address JSR pushed and continue after it
+                const low = this.pull();
+                const high = this.pull();
+                this.jump(((high << 8) | low) + 1);
+                break;
+            }
+            case 0xFF: // SYS
+                this.systemCall();
+                break;
+        }
+
+        return !this.halted && !this.error;
+    }
+
+    // Run until BRK, a fault or the cycle limit
+    run(): EmulatorResult {
+        while (this.step()) {
+            // Keep stepping
+        }
+        return {
+            stdout: this.output,
+            memory: this.memory.slice(),
+            cycles: this.cycles,
+            halted: this.halted,
+            error: this.error
+        };
+    }
+
+    getState(): EmulatorState {
+        return {
+            accumulator: this.accumulator,
+            xRegister: this.xRegister,
+            yRegister: this.yRegister,
+            zeroFlag: this.zeroFlag,
+            programCounter: this.programCounter,
+            stackPointer: this.stackPointer,
+            cycles: this.cycles,
+            memory: this.memory.slice(),
+            stdout: this.output,
+            halted: this.halted,
+            error: this.error
+        };
+    }
+
+    // X=1 prints the integer in Y, X=2 prints the null-terminated string at address Y
+    private systemCall(): void {
+        if (this.xRegister === 1) {
+            this.output += this.yRegister.toString();
+        } else if (this.xRegister === 2) {
+            let address = this.yRegister;
+            while (address < 0x100 && this.memory[address] !== 0x00) {
+                this.output += String.fromCharCode(this.memory[address]);
+                address++;
+            }
+        } else {
+            this.fault(`Unsupported system call X=${Emulator.hex(this.xRegister)}`);
+        }
+    }
+
+    private read(address: number): number {
+        if (address > 0xFF) {
+            this.fault(`Read from ${Emulator.hex(address)} is outside the 256-byte memory`);
+            return 0;
+        }
+        return this.memory[address];
+    }
+
+    private write(address: number, value: number): void {
+        if (address > 0xFF) {
+            this.fault(`Write to ${Emulator.hex(address)} is outside the 256-byte memory`);
+            return;
+        }
+        this.memory[address] = value & 0xFF;
+    }
+
+    private push(value: number): void {
+        if (this.stackPointer < 0) {
+            this.fault('Stack overflow');
+            return;
+        }
+        this.stack[this.stackPointer--] = value;
+    }
+
+    private pull(): number {
+        if (this.stackPointer >= 0xFF) {
+            this.fault('RTS with an empty stack');
+            return 0;
+        }
+        return this.stack[++this.stackPointer];
+    }
+
+    private jump(address: number): void {
+        if (address > 0xFF) {
+            this.fault(`Jump to ${Emulator.hex(address)} is outside the 256-byte memory`);
+            return;
+        }
+        this.programCounter = address;
+    }
+
+    private fault(message: string): void {
+        if (!this.error) {
+            this.error = message;
+        }
+    }
+
+    private static hex(value: number): string {
+        return `$${value.toString(16).padStart(2, '0').toUpperCase()}`;
+    }
+}
+
+// Make class available globally
+(globalThis as any).Emulator = Emulator;
@@ -0,0 +1,469 @@
+// Alan++ type of an IR value
+type IRType = 'int' | 'boolean' | 'string';
+
+// One declared variable; shadowing declarations in nested blocks are distinct variables
+interface IRVariable {
+    id: number;
+    name: string;
+    type: IRType;
+    label: string; // Display name, e.g. a or a#2 for the second variable called a
+}
+
+// Operands of an IR instruction, each carrying the type of its value
+interface IRConstOperand {
+    kind: 'const';
+    type: IRType;  // Booleans are 1 (true) or 0 (false)
+    value: number;
+}
+
+interface IRStringOperand {
+    kind: 'string';
+    type: IRType;  // Always 'string'; the backend places the literal on the heap
+    value: string;
+}
+
+interface IRVarOperand {
+    kind: 'var';
+    type: IRType;
+    variable: IRVariable;
+}
+
+interface IRTempOperand {
+    kind: 'temp';
+    type: IRType;
+    id: number;
+}
+
+type IRPlace = IRVarOperand | IRTempOperand;
+type IROperand = IRConstOperand | IRStringOperand | IRPlace;
+
+// Operators of binary instructions, by their Alan++ symbol
+const IR_BINARY_OPS = {
+    '+': 'add', '-': 'subtract', '*': 'multiply',
+    '==': 'equal', '!=': 'notEqual', '<': 'less', '<=': 'lessEqual', '>': 'greater', '>=': 'greaterEqual'
+} as const;
+
+type IRBinaryOp = typeof IR_BINARY_OPS[keyof typeof IR_BINARY_OPS];
+
+// Three-address instructions. source is the statement the instruction was lowered from,
+// which the backend turns into source map entries.
+interface IRInstructionBase {
+    source: ASTNode | null;
+}
+
+interface IRDeclare extends IRInstructionBase { op: 'declare'; variable: IRVariable; }
+interface IRCopy extends IRInstructionBase { op: 'copy'; dest: IRPlace; src: IROperand; }
+interface IRBinary extends IRInstructionBase { op: IRBinaryOp; dest: IRPlace; left: IROperand; right: IROperand; }
+interface IRLabel extends IRInstructionBase { op: 'label'; label: string; }
+interface IRJump extends IRInstructionBase { op: 'jump'; label: string; }
+interface IRJumpIfFalse extends IRInstructionBase { op: 'jumpIfFalse'; condition: IROperand; label: string; }
+interface IRJumpIfTrue extends IRInstructionBase { op: 'jumpIfTrue'; condition: IROperand; label: string; }
+interface IRPrint extends IRInstructionBase { op: 'print'; src: IROperand; }
+interface IRCall extends IRInstructionBase { op: 'call'; func: IRFunction; args: IROperand[]; dest: IRPlace | null; }
+interface IRReturn extends IRInstructionBase { op: 'return'; func: IRFunction; value: IROperand | null; }
+interface IRHalt extends IRInstructionBase { op: 'halt'; }
+
+type IRInstruction = IRDeclare | IRCopy | IRBinary | IRLabel | IRJump | IRJumpIfFalse | IRJumpIfTrue | IRPrint |
+    IRCall | IRReturn | IRHalt;
+
+// A declared function. Its body is lowered into its own instruction list; a call copies
+// the arguments into the parameters, which are ordinary variables.
+interface IRFunction {
+    name: string;
+    label: string;            // Display name, e.g. f or f#2 like variables
+    params: IRVariable[];
+    returnType: IRType | null; // null for a function without a return type
+    instructions: IRInstruction[];
+}
+
+// A whole lowered program
+interface IRProgram {
+    instructions: IRInstruction[];
+    functions: IRFunction[];
+    variables: IRVariable[];
+    tempCount: number;
+    labelCount: number;
+}
+
+// Lowers a checked AST to three-address IR. Expressions get a fresh temp per
+// intermediate value; the last operation of an assignment writes the variable directly.
+class IRBuilder {
+    private ast: ASTNode;
+    private instructions: IRInstruction[] = []; // The list being lowered into: main's or a function's
+    private functions: IRFunction[] = [];
+    private currentFunction: IRFunction | null = null;
+    private variables: IRVariable[] = [];
+    private scopes: Map<string, IRVariable | IRFunction>[] = []; // Innermost scope last
+    private tempCount: number = 0;
+    private labelCount: number = 0;
+    private currentSource: ASTNode | null = null;
+
+    constructor(ast: ASTNode) {
+        this.ast = ast;
+    }
+
+    build(): IRProgram {
+        this.lowerStatement(this.ast);
+        this.currentSource = null;
+        this.add({ op: 'halt', source: null });
+        return {
+            instructions: this.instructions,
+            functions: this.functions,
+            variables: this.variables,
+            tempCount: this.tempCount,
+            labelCount: this.labelCount
+        };
+    }
+
+    private add(instruction: IRInstruction): void {
+        this.instructions.push(instruction);
+    }
+
+    private lowerStatement(node: ASTNode): void {
+        const previousSource = this.currentSource;
+        if (node.line !== undefined) {
+            this.currentSource = node;
+        }
+
+        switch (node.type) {
+            case 'Program':
+                for (const child of node.children) {
+                    this.lowerStatement(child);
+                }
+                break;
+            case 'Block':
+                this.scopes.push(new Map());
+                for (const child of node.children) {
+                    this.lowerStatement(child);
+                }
+                this.scopes.pop();
+                break;
+            case 'VarDecl': {
+                const variable = this.declare(node.children[0].value!, node.value as IRType);
+                this.add({ op: 'declare', variable, source: this.currentSource });
+                // Ints and booleans start at 0 (false), strings at the empty string, as in the Interpreter
+                const dest: IRVarOperand = { kind: 'var', type: variable.type, variable };
+                const initial: IROperand = variable.type === 'string'
+                    ? { kind: 'string', type: 'string', value: '' }
+                    : IRBuilder.constant(variable.type, 0);
+                this.add({ op: 'copy', dest, src: initial, source: this.currentSource });
+                break;
+            }
+            case 'Assignment':
+                this.lowerExpr(node.children[1], this.variableOperand(node.children[0].value!));
+                break;
+            case 'Print':
+                this.add({ op: 'print', src: this.lowerExpr(node.children[0]), source: this.currentSource });
+                break;
+            case 'FuncDecl':
+                this.lowerFunction(node);
+                break;
+            case 'Return': {
+                const value = node.children.length > 0 ? this.lowerExpr(node.children[0]) : null;
+                this.add({ op: 'return', func: this.currentFunction!, value, source: this.currentSource });
+                break;
+            }
+            case 'Call':
+                this.lowerCall(node, this.functionNamed(node.value!), null);
+                break;
+            case 'IfStatement': {
+                const elseLabel = this.newLabel();
+                this.lowerCondition(node.children[0], elseLabel);
+                this.lowerStatement(node.children[1]);
+                if (node.children.length > 2) {
+                    // Jump over the else block once the then block has run
+                    const endLabel = this.newLabel();
+                    this.add({ op: 'jump', label: endLabel, source: this.currentSource });
+                    this.add({ op: 'label', label: elseLabel, source: this.currentSource });
+                    this.lowerStatement(node.children[2]);
+                    this.add({ op: 'label', label: endLabel, source: this.currentSource });
+                } else {
+                    this.add({ op: 'label', label: elseLabel, source: this.currentSource });
+                }
+                break;
+            }
+            case 'While': {
+                // Re-evaluate the condition at the top of every iteration
+                const startLabel = this.newLabel();
+                const endLabel = this.newLabel();
+                this.add({ op: 'label', label: startLabel, source: this.currentSource });
+                this.lowerCondition(node.children[0], endLabel);
+                this.lowerStatement(node.children[1]);
+                this.add({ op: 'jump', label: startLabel, source: this.currentSource });
+                this.add({ op: 'label', label: endLabel, source: this.currentSource });
+                break;
+            }
+            default:
+                throw new Error(`IRBuilder: unexpected statement ${node.type}`);
+        }
+
+        this.currentSource = previousSource;
+    }
+
+    // The body goes into the function's own instruction list, with the parameters in a
+    // scope around the body's block
+    private lowerFunction(node: ASTNode): void {
+        const [idNode, params, body] = node.children;
+        const name = idNode.value!;
+        const count = this.functions.filter(func => func.name === name).length;
+        const func: IRFunction = {
+            name,
+            label: count === 0 ? name : `${name}#${count + 1}`,
+            params: [],
+            returnType: node.value === 'void' ? null : node.value as IRType,
+            instructions: []
+        };
+        this.functions.push(func);
+        this.scopes[this.scopes.length - 1].set(name, func);
+
+        const outerInstructions = this.instructions;
+        const outerFunction = this.currentFunction;
+        this.instructions = func.instructions;
+        this.currentFunction = func;
+        this.scopes.push(new Map());
+        for (const param of params.children) {
+            func.params.push(this.declare(param.children[0].value!, param.value as IRType));
+        }
+        this.lowerStatement(body);
+        this.scopes.pop();
+        this.instructions = outerInstructions;
+        this.currentFunction = outerFunction;
+    }
+
+    // Arguments are lowered left to right. A variable argument is copied to a temp when a
+    // later argument calls a function, which might assign the variable before the call.
+    private lowerCall(node: ASTNode, func: IRFunction, dest: IRPlace | null): void {
+        const args = node.children.map((arg, i) => {
+            const value = this.lowerExpr(arg);
+            return node.children.slice(i + 1).some(later => ASTBuilder.containsCall(later)) ? this.pin(value) : value;
+        });
+        this.add({ op: 'call', func, args, dest, source: this.currentSource });
+    }
+
+    // A variable's current value in a temp, so a call evaluated later cannot change it
+    private pin(value: IROperand): IROperand {
+        if (value.kind !== 'var') {
+            return value;
+        }
+        const temp = this.newTemp(value.type);
+        this.add({ op: 'copy', dest: temp, src: value, source: this.currentSource });
+        return temp;
+    }
+
+    private lowerCondition(condition: ASTNode, falseLabel: string): void {
+        this.lowerBranch(condition, falseLabel, false);
+    }
+
+    // Jump to label when the condition evaluates to jumpWhen. not, and and or become jumps
+    // themselves, so the right operand is skipped once the left one decides the result.
+    private lowerBranch(condition: ASTNode, label: string, jumpWhen: boolean): void {
+        if (IRBuilder.isLogical(condition)) {
+            const [left, right] = condition.children;
+            if (condition.value === 'not') {
+                this.lowerBranch(left, label, !jumpWhen);
+                return;
+            }
+            // The left operand decides an and when false and an or when true
+            const deciding = condition.value === 'or';
+            if (deciding === jumpWhen) {
+                this.lowerBranch(left, label, jumpWhen);
+                this.lowerBranch(right, label, jumpWhen);
+            } else {
+                const skipLabel = this.newLabel();
+                this.lowerBranch(left, skipLabel, deciding);
+                this.lowerBranch(right, label, jumpWhen);
+                this.add({ op: 'label', label: skipLabel, source: this.currentSource });
+            }
+            return;
+        }
+
+        const value = this.lowerExpr(condition);
+        this.add({ op: jumpWhen ? 'jumpIfTrue' : 'jumpIfFalse', condition: value, label, source: this.currentSource });
+    }
+
+    private static isLogical(node: ASTNode): boolean {
+        return node.type === 'boolexpr' && (node.value === 'not' || node.value === 'and' || node.value === 'or');
+    }
+
+    // Lower an expression and return the operand holding its value. With a dest, the
+    // value ends up there instead of in a new temp.
+    private lowerExpr(node: ASTNode, dest?: IRPlace): IROperand {
+        let value: IROperand;
+        switch (node.type) {
+            case 'IntExpr':
+                // A digit, or Expr intop Expr
+                if (node.children.length === 0) {
+                    value = IRBuilder.constant('int', parseInt(node.value!, 10) & 0xFF);
+                    break;
+                }
+                return this.lowerBinary('int', node, dest);
+            case 'StringExpr':
+                value = { kind: 'string', type: 'string', value: node.value || '' };
+                break;
+            case 'boolexpr': {
+                // A literal, or ( Expr boolop Expr )
+                if (node.children.length === 0) {
+                    value = IRBuilder.constant('boolean', node.value === 'true' ? 1 : 0);
+                    break;
+                }
+                if (!IRBuilder.isLogical(node)) {
+                    return this.lowerBinary('boolean', node, dest);
+                }
+                // As a value, a logical expression stores true or false from its branches
+                const target = dest || this.newTemp('boolean');
+                const falseLabel = this.newLabel();
+                const endLabel = this.newLabel();
+                this.lowerBranch(node, falseLabel, false);
+                this.add({ op: 'copy', dest: target, src: IRBuilder.constant('boolean', 1), source: this.currentSource });
+                this.add({ op: 'jump', label: endLabel, source: this.currentSource });
+                this.add({ op: 'label', label: falseLabel, source: this.currentSource });
+                this.add({ op: 'copy', dest: target, src: IRBuilder.constant('boolean', 0), source: this.currentSource });
+                this.add({ op: 'label', label: endLabel, source: this.currentSource });
+                return target;
+            }
+            case 'Id':
+                value = this.variableOperand(node.value!);
+                break;
+            case 'Call': {
+                const func = this.functionNamed(node.value!);
+                const target = dest || this.newTemp(func.returnType!);
+                this.lowerCall(node, func, target);
+                return target;
+            }
+            default:
+                throw new Error(`IRBuilder: unexpected expression ${node.type}`);
+        }
+
+        if (dest) {
+            this.add({ op: 'copy', dest, src: value, source: this.currentSource });
+            return dest;
+        }
+        return value;
+    }
+
+    private lowerBinary(type: IRType, node: ASTNode, dest?: IRPlace): IROperand {
+        const op = IR_BINARY_OPS[node.value as keyof typeof IR_BINARY_OPS];
+        let left = this.lowerExpr(node.children[0]);
+        if (ASTBuilder.containsCall(node.children[1])) {
+            left = this.pin(left);
+        }
+        const right = this.lowerExpr(node.children[1]);
+        const target = dest || this.newTemp(type);
+        this.add({ op, dest: target, left, right, source: this.currentSource });
+        return target;
+    }
+
+    private declare(name: string, type: IRType): IRVariable {
+        const count = this.variables.filter(variable => variable.name === name).length;
+        const variable: IRVariable = {
+            id: this.variables.length,
+            name,
+            type,
+            // Temps print as t0, t1, ...; an extended-language variable named like one keeps a suffix
+            label: count === 0 && !/^t[0-9]+$/.test(name) ? name : `${name}#${count + 1}`
+        };
+        this.variables.push(variable);
+        this.scopes[this.scopes.length - 1].set(name, variable);
+        return variable;
+    }
+
+    // Names resolve to the innermost scope that declares them
+    private resolve(name: string): IRVariable | IRFunction {
+        for (let i = this.scopes.length - 1; i >= 0; i--) {
+            const binding = this.scopes[i].get(name);
+            if (binding) {
+                return binding;
+            }
+        }
+        throw new Error(`IRBuilder: '${name}' is not declared`);
+    }
+
+    private variableOperand(name: string): IRVarOperand {
+        const variable = this.resolve(name) as IRVariable;
+        return { kind: 'var', type: variable.type, variable };
+    }
+
+    private functionNamed(name: string): IRFunction {
+        return this.resolve(name) as IRFunction;
+    }
+
+    private newTemp(type: IRType): IRTempOperand {
+        return { kind: 'temp', type, id: this.tempCount++ };
+    }
+
+    private newLabel(): string {
+        return `L${this.labelCount++}`;
+    }
+
+    static constant(type: IRType, value: number): IRConstOperand {
+        return { kind: 'const', type, value };
+    }
+
+    // Text listing of a program, one instruction per line with labels flush left,
+    // followed by each function under a header with its signature
+    static format(program: IRProgram): string {
+        const lines = program.instructions.map(instruction => IRBuilder.formatInstruction(instruction));
+        for (const func of program.functions) {
+            const params = func.params.map(param => `${param.label}: ${param.type}`).join(', ');
+            lines.push('', `func ${func.label}(${params})${func.returnType ? `: ${func.returnType}` : ''}`);
+            lines.push(...func.instructions.map(instruction => IRBuilder.formatInstruction(instruction)));
+        }
+        return lines.join('\n') + '\n';
+    }
+
+    static formatInstruction(instruction: IRInstruction): string {
+        switch (instruction.op) {
+            case 'declare':
+                return `    declare ${instruction.variable.label}: ${instruction.variable.type}`;
+            case 'copy':
+                return `    ${IRBuilder.formatOperand(instruction.dest)} = ${IRBuilder.formatOperand(instruction.src)}`;
+            case 'add':
+            case 'subtract':
+            case 'multiply':
+            case 'equal':
+            case 'notEqual':
+            case 'less':
+            case 'lessEqual':
+            case 'greater':
+            case 'greaterEqual': {
+                const op = instruction.op;
+                const symbol = Object.keys(IR_BINARY_OPS).find(key => IR_BINARY_OPS[key as keyof typeof IR_BINARY_OPS] === op);
+                return `    ${IRBuilder.formatOperand(instruction.dest)} = ${IRBuilder.formatOperand(instruction.left)} ${symbol} ${IRBuilder.formatOperand(instruction.right)}`;
+            }
+            case 'label':
+                return `${instruction.label}:`;
+            case 'jump':
+                return `    goto ${instruction.label}`;
+            case 'jumpIfFalse':
+                return `    ifFalse ${IRBuilder.formatOperand(instruction.condition)} goto ${instruction.label}`;
+            case 'jumpIfTrue':
+                return `    ifTrue ${IRBuilder.formatOperand(instruction.condition)} goto ${instruction.label}`;
+            case 'print':
+                return `    print ${instruction.src.type} ${IRBuilder.formatOperand(instruction.src)}`;
+            case 'call': {
+                const call = `call ${instruction.func.label}(${instruction.args.map(arg => IRBuilder.formatOperand(arg)).join(', ')})`;
+                return instruction.dest ? `    ${IRBuilder.formatOperand(instruction.dest)} = ${call}` : `    ${call}`;
+            }
+            case 'return':
+                return instruction.value ? `    return ${IRBuilder.formatOperand(instruction.value)}` : `    return`;
+            case 'halt':
+                return `    halt`;
+        }
+    }
+
+    static formatOperand(operand: IROperand): string {
+        switch (operand.kind) {
+            case 'const':
+                return operand.type === 'boolean' ? (operand.value ? 'true' : 'false') : String(operand.value);
+            case 'string':
+                return JSON.stringify(operand.value);
+            case 'var':
+                return operand.variable.label;
+            case 'temp':
+                return `t${operand.id}`;
+        }
+    }
+}
+
+// Make class available globally
+(globalThis as any).IRBuilder = IRBuilder;
@@ -0,0 +1,217 @@
+// Value of an Alan++ variable or expression while interpreting
+type InterpreterValue = number | string | boolean;
+
+// A declared function with the scopes it was declared in, which its body sees when called
+interface InterpreterFunction {
+    declaration: ASTNode;
+    scopes: Map<string, InterpreterBinding>[];
+}
+
+// What a name is bound to in a scope
+type InterpreterBinding = InterpreterValue | InterpreterFunction;
+
+// Outcome of interpreting a program
+interface InterpreterResult {
+    stdout: string;
+    steps: number;        // Statements and loop iterations executed
+    error: string | null; // Set when the step limit stopped the program
+}
+
+// Runs an Alan++ AST directly, without CodeGen, as a reference for what the compiled
+// program should print. Ints are 8-bit and wrap on every operation like the target's ADC,
+// every block opens a scope the way SemanticAnalyser nests its SymbolTables, and
+// declared ints and booleans start at 0 and false like the generated code.
+// A call runs the function's body in the scopes it was declared in plus one for its parameters.
+class Interpreter {
+    private ast: ASTNode;
+    private scopes: Map<string, InterpreterBinding>[] = [];
+    private output: string = '';
+    private steps: number = 0;
+    private maxSteps: number;
+
+    constructor(ast: ASTNode, maxSteps: number = 100000) {
+        this.ast = ast;
+        this.maxSteps = maxSteps;
+    }
+
+    // Run the whole program; a step limit keeps `while true` from hanging the caller
+    run(): InterpreterResult {
+        let error: string | null = null;
+        try {
+            for (const block of this.ast.children) {
+                this.executeBlock(block);
+            }
+        } catch (e) {
+            if (!(e instanceof InterpreterLimit)) {
+                throw e;
+            }
+            error = e.message;
+        }
+        return { stdout: this.output, steps: this.steps, error };
+    }
+
+    private executeBlock(block: ASTNode): void {
+        this.scopes.push(new Map());
+        for (const statement of block.children) {
+            this.execute(statement);
+        }
+        this.scopes.pop();
+    }
+
+    private execute(node: ASTNode): void {
+        this.tick();
+        switch (node.type) {
+            case 'VarDecl': {
+                const initial: InterpreterValue = node.value === 'int' ? 0 : node.value === 'boolean' ? false : '';
+                this.scopes[this.scopes.length - 1].set(node.children[0].value!, initial);
+                break;
+            }
+            case 'Assignment':
+                this.assign(node.children[0].value!, this.evaluate(node.children[1]));
+                break;
+            case 'Print': {
+                // Evaluated first: a call in the expression may print too
+                const value = this.evaluate(node.children[0]);
+                this.output += Interpreter.format(value);
+                break;
+            }
+            case 'IfStatement':
+                if (this.evaluate(node.children[0]) === true) {
+                    this.executeBlock(node.children[1]);
+                } else if (node.children.length > 2) {
+                    // An else block, or the if of an else if
+                    this.execute(node.children[2]);
+                }
+                break;
+            case 'While':
+                while (this.evaluate(node.children[0]) === true) {
+                    this.executeBlock(node.children[1]);
+                    this.tick();
+                }
+                break;
+            case 'FuncDecl': {
+                const scope = this.scopes[this.scopes.length - 1];
+                scope.set(node.children[0].value!, { declaration: node, scopes: this.scopes.slice() });
+                break;
+            }
+            case 'Return':
+                throw new InterpreterReturn(node.children.length > 0 ? this.evaluate(node.children[0]) : null);
+            case 'Call':
+                this.call(node);
+                break;
+            case 'Block':
+                this.executeBlock(node);
+                break;
+            default:
+                throw new Error(`Interpreter: unexpected statement ${node.type}`);
+        }
+    }
+
+    private evaluate(node: ASTNode): InterpreterValue {
+        switch (node.type) {
+            case 'IntExpr': {
+                // A digit, or Expr intop Expr
+                if (node.children.length === 0) {
+                    return parseInt(node.value!, 10);
+                }
+                const left = this.evaluate(node.children[0]) as number;
+                const right = this.evaluate(node.children[1]) as number;
+                const result = node.value === '-' ? left - right : node.value === '*' ? left * right : left + right;
+                return result & 0xFF;
+            }
+            case 'StringExpr':
+                return node.value || '';
+            case 'boolexpr': {
+                // A literal, or ( Expr boolop Expr ); ints are ordered as unsigned bytes
+                if (node.children.length === 0) {
+                    return node.value === 'true';
+                }
+                // and/or skip their right operand once the left one decides the result
+                switch (node.value) {
+                    case 'not': return !this.evaluate(node.children[0]);
+                    case 'and': return this.evaluate(node.children[0]) ? this.evaluate(node.children[1]) : false;
+                    case 'or': return this.evaluate(node.children[0]) ? true : this.evaluate(node.children[1]);
+                }
+                const left = this.evaluate(node.children[0]);
+                const right = this.evaluate(node.children[1]);
+                switch (node.value) {
+                    case '==': return left === right;
+                    case '!=': return left !== right;
+                    case '<': return left < right;
+                    case '<=': return left <= right;
+                    case '>': return left > right;
+                    default: return left >= right;
+                }
+            }
+            case 'Id':
+                return this.lookup(node.value!);
+            case 'Call':
+                return this.call(node)!;
+            default:
+                throw new Error(`Interpreter: unexpected expression ${node.type}`);
+        }
+    }
+
+    // Arguments are evaluated in the caller's scopes, left to right; the returned
+    // value is null for a function without a return type
+    private call(node: ASTNode): InterpreterValue | null {
+        const fn = this.findScope(node.value!).get(node.value!) as InterpreterFunction;
+        const [, params, body] = fn.declaration.children;
+        const frame: Map<string, InterpreterBinding> = new Map();
+        params.children.forEach((param, i) => frame.set(param.children[0].value!, this.evaluate(node.children[i])));
+
+        const callerScopes = this.scopes;
+        this.scopes = fn.scopes.concat([frame]);
+        try {
+            this.executeBlock(body);
+        } catch (e) {
+            if (!(e instanceof InterpreterReturn)) {
+                throw e;
+            }
+            return e.value;
+        } finally {
+            this.scopes = callerScopes;
+        }
+        return null;
+    }
+
+    // Variables resolve to the innermost scope that declares them
+    private findScope(name: string): Map<string, InterpreterBinding> {
+        for (let i = this.scopes.length - 1; i >= 0; i--) {
+            if (this.scopes[i].has(name)) {
+                return this.scopes[i];
+            }
+        }
+        throw new Error(`Interpreter: variable '${name}' is not declared`);
+    }
+
+    private lookup(name: string): InterpreterValue {
+        return this.findScope(name).get(name) as InterpreterValue;
+    }
+
+    private assign(name: string, value: InterpreterValue): void {
+        this.findScope(name).set(name, value);
+    }
+
+    private tick(): void {
+        if (++this.steps > this.maxSteps) {
+            throw new InterpreterLimit(`Step limit of ${this.maxSteps} exceeded (possible infinite loop)`);
+        }
+    }
+
+    // Booleans print as true/false, the way CodeGen's print does
+    private static format(value: InterpreterValue): string {
+        return typeof value === 'boolean' ? (value ? 'true' : 'false') : String(value);
+    }
+}
+
+// Thrown to unwind the interpreter once it runs out of steps
+class InterpreterLimit extends Error {}
+
+// Thrown by a return statement to unwind to its call
+class InterpreterReturn {
+    constructor(readonly value: InterpreterValue | null) {}
+}
+
+// Make class available globally
+(globalThis as any).Interpreter = Interpreter;
@@ -0,0 +1,365 @@
+// Token class
+class Token {
+    type: string;
+    value: string | null;
+    line: number;
+    column: number;
+    start: SourcePosition; // First character of the token
+    end: SourcePosition;   // Character after the token
+
+    // Constructor for the Token class
+    constructor(type: string, value: string | null) {
+        this.type = type;
+        this.value = value;
+        this.line = 0;
+        this.column = 0;
+        this.start = { offset: 0, line: 0, column: 0 };
+        this.end = this.start;
+    }
+}
+
+// Lexer class
+class Lexer {
+    input: string;
+    position: number;
+    currentChar: string | null;
+    inComment: boolean;
+    diagnostics: Diagnostic[];
+    programCount: number;
+    foundStartBrace: boolean;
+    currentProgram: number;
+    line: number;
+    column: number;
+    inString: boolean;
+    currentErrorMessage: string;
+    tokenStart: SourcePosition; // Where the token being scanned began
+    language: LanguageLevel;
+
+    constructor(input: string, language: LanguageLevel = 'classic') {
+        this.input = input;
+        this.language = language;
+        this.position = 0;
+        this.currentChar = this.input[0] || null;
+        this.inComment = false;
+        this.diagnostics = [];
+        this.programCount = 1;
+        this.foundStartBrace = false;
+        this.currentProgram = 1;
+        this.line = 1;
+        this.column = 1;
+        this.inString = false;
+        this.currentErrorMessage = '';
+        this.tokenStart = this.here();
+    }
+    // Reports the token scanned so far plus the offending character, which is skipped
+    error(code: string, message: string): void {
+        this.advance();
+        this.reportError(code, message, this.tokenStart, this.here());
+    }
+
+    reportError(code: string, message: string, start: SourcePosition, end: SourcePosition): void {
+        const diagnostic = createDiagnostic('lexer', 'error', code, message, start, end);
+        this.diagnostics.push(diagnostic); // Keep track for error count
+        // Store the error message in a property to be displayed at the right time
+        this.currentErrorMessage = formatDiagnosticHTML(diagnostic, this.input, true);
+    }
+
+    // Report a string or comment that is never closed at its opening delimiter
+    unterminated(what: string, closing: string, open: SourcePosition, length: number): Token {
+        const end = { offset: open.offset + length, line: open.line, column: open.column + length };
+        this.reportError(what === 'string' ? 'E104' : 'E105', `Unterminated ${what}: missing closing '${closing}'`, open, end);
+        return this.makeToken('ERROR', what === 'string' ? '"' : '/*');
+    }
+
+    here(): SourcePosition {
+        return { offset: this.position, line: this.line, column: this.column };
+    }
+
+    // A token spanning from tokenStart to the current position
+    makeToken(type: string, value: string | null): Token {
+        const token = new Token(type, value);
+        token.start = this.tokenStart;
+        token.end = this.here();
+        token.line = token.start.line;
+        token.column = token.start.column;
+        return token;
+    }
+
+    advance(): void {
+        if (this.currentChar === '\n') {
+            this.line++;
+            this.column = 0;
+        }
+        this.position++;
+        this.column++;
+        this.currentChar = this.input[this.position] || null;
+    }
+
+    peek(): string | null {
+        return this.position + 1 > this.input.length - 1 ? null : this.input[this.position + 1];
+    }
+
+    skipWhitespace(): void {
+        while (this.currentChar && /\s/.test(this.currentChar)) {
+            this.advance();
+        }
+    }
+
+    // Skip the rest of a comment whose '/*' was just consumed. A comment that is never
+    // closed only runs to the next '$', so the program it is in can still be ended.
+    skipComment(): boolean {
+        const close = this.input.indexOf('*/', this.position);
+        if (close === -1) {
+            while (this.currentChar && this.currentChar !== '$') {
+                this.advance();
+            }
+            this.inComment = false;
+            return false;
+        }
+        while (this.position < close + 2) {
+            this.advance();
+        }
+        this.inComment = false;
+        return true;
+    }
+    
+    // Whether the string opening at the current quote closes on its own line, before the next '$'
+    stringIsClosed(): boolean {
+        for (let i = this.position + 1; i < this.input.length; i++) {
+            const char = this.input[i];
+            if (char === '"') {
+                return true;
+            }
+            if (char === '\n' || char === '\r' || char === '$') {
+                return false;
+            }
+        }
+        return false;
+    }
+
+    // Skip an unterminated string up to the newline, '$' or end of input that cuts it
+    // off, leaving that character for the next token
+    skipUnterminatedString(): void {
+        while (this.currentChar && this.currentChar !== '\n' && this.currentChar !== '\r' && this.currentChar !== '$') {
+            this.advance();
+        }
+    }
+
+    identifier(): Token {
+        if (!this.currentChar) {
+            return this.makeToken('ERROR', null);
+        }
+
+        // Look ahead to check for keywords first
+        let tempPos = this.position;
+        let tempChar = this.currentChar;
+        let longestKeyword = '';
+
+        const keywords: { [key: string]: string } = {
+            'print': 'PRINT', 'while': 'WHILE', 'if': 'IF', 'else': 'ELSE',
+            'int': 'TYPE', 'string': 'TYPE', 'boolean': 'TYPE',
+            'true': 'BOOLVAL', 'false': 'BOOLVAL',
+            'and': 'LOGICOP', 'or': 'LOGICOP', 'not': 'NOT',
+            'func': 'FUNC', 'return': 'RETURN'
+        };
+
+        // The extended language reads the whole word, which is a keyword or one identifier
+        if (this.language === 'extended') {
+            let word = '';
+            while (this.currentChar && /[a-z0-9]/.test(this.currentChar)) {
+                word += this.currentChar;
+                this.advance();
+            }
+            return this.makeToken(keywords.hasOwnProperty(word) ? keywords[word] : 'ID', word);
+        }
+
+        // Build potential keyword and check at each step
+        let potentialKeyword = '';
+        while (tempChar && /[a-z]/.test(tempChar)) {
+            potentialKeyword += tempChar;
+            if (keywords[potentialKeyword]) {
+                longestKeyword = potentialKeyword;
+            }
+            tempPos++;
+            tempChar = this.input[tempPos] || null;
+        }
+
+        // If we found a keyword
+        if (longestKeyword) {
+            // Advance past the keyword
+            for (let i = 0; i < longestKeyword.length; i++) {
+                this.advance();
+            }
+            return this.makeToken(keywords[longestKeyword], longestKeyword);
+        }
+
+        // If not a keyword, just return the single character as ID
+        const char = this.currentChar;
+        this.advance();
+        return this.makeToken('ID', char);
+    }
+
+    number(): Token {
+        if (!this.currentChar) {
+            return this.makeToken('ERROR', null);
+        }
+
+        if (this.language === 'extended') {
+            // The whole literal is one DIGIT token, as long as it fits in a byte
+            let digits = '';
+            while (this.currentChar && /[0-9]/.test(this.currentChar)) {
+                digits += this.currentChar;
+                this.advance();
+            }
+            if (parseInt(digits, 10) > 255) {
+                this.reportError('E106', `Integer literal ${digits} is out of range (0 to 255)`, this.tokenStart, this.here());
+                return this.makeToken('ERROR', digits);
+            }
+            return this.makeToken('DIGIT', digits);
+        }
+
+        // Classic Alan++: instead of building a number string, just get one digit
+        const digit = this.currentChar;
+        this.advance();
+        return this.makeToken('DIGIT', digit);
+    }
+
+    string(): Token {
+        if (this.currentChar === '"') {
+            this.advance(); // Move past the opening quote
+            return this.makeToken('QUOTE', '"');
+        }
+        
+        // Handle each character within the string
+        if (!this.currentChar) {
+            return this.makeToken('ERROR', null);
+        }
+        
+        // Only allow valid characters in strings
+        if (/[a-z]/.test(this.currentChar) || /[0-9]/.test(this.currentChar) || this.currentChar === ' ') {
+            const char = this.currentChar;
+            this.advance();
+            return this.makeToken('CHAR', char);
+        }
+        
+        // Invalid character in string
+        const invalidChar = this.currentChar;
+        this.error('E102', `Invalid character '${invalidChar}' in string`);
+        return this.makeToken('ERROR', invalidChar);
+    }
+    
+    getNextToken(): Token {
+        while (this.currentChar) {
+            this.tokenStart = this.here();
+            if (this.currentChar === '/' && this.peek() === '*') {
+                this.advance();
+                this.advance();
+                this.inComment = true;
+                if (!this.skipComment()) {
+                    return this.unterminated('comment', '*/', this.tokenStart, 2);
+                }
+                continue;
+            }
+            // A string that never closes is reported once; tokenizing resumes after it
+            if (!this.inString && this.currentChar === '"' && !this.stringIsClosed()) {
+                this.skipUnterminatedString();
+                return this.unterminated('string', '"', this.tokenStart, 1);
+            }
+            if (this.inString || this.currentChar === '"') {
+                if (this.currentChar === '"') {
+                    if (!this.inString) {
+                        this.inString = true;
+                    } else {
+                        this.inString = false;
+                    }
+                }
+                return this.string();
+            }
+            if (!this.inString && /\s/.test(this.currentChar)) {
+                this.skipWhitespace();
+                continue;
+            }
+            if (this.currentChar === '$') {
+                this.advance();
+                return this.makeToken('EOP', '$');
+            }
+            if (/[0-9]/.test(this.currentChar)) return this.number();
+            if (/[a-z]/.test(this.currentChar)) return this.identifier();
+            
+            const singleCharTokens: { [key: string]: string } = {
+                '{': 'LBRACE', '}': 'RBRACE', '(': 'LPAREN', ')': 'RPAREN',
+                '+': 'INTOP', '-': 'INTOP', '*': 'INTOP',
+                ',': 'COMMA', ':': 'COLON'
+            };
+            if (this.currentChar in singleCharTokens) {
+                const char = this.currentChar;
+                this.advance();
+                return this.makeToken(singleCharTokens[char], char);
+            }
+            
+            if (this.currentChar === '!') {
+                if (this.peek() === '=') {
+                    this.advance();
+                    this.advance();
+                    return this.makeToken('BOOLOP', '!=');
+                }
+                this.error('E103', "Expected '=' after '!'");
+                return this.makeToken('ERROR', '!');
+            }
+
+            // < and > compare on their own or with a following =
+            if (this.currentChar === '<' || this.currentChar === '>') {
+                const op = this.peek() === '=' ? `${this.currentChar}=` : this.currentChar;
+                for (let i = 0; i < op.length; i++) {
+                    this.advance();
+                }
+                return this.makeToken('BOOLOP', op);
+            }
+
+            // Modified == operator handling
+            if (this.currentChar === '=') {
+                const nextChar = this.peek();
+                this.advance();
+                if (nextChar === '=') {
+                    this.advance();
+                    return this.makeToken('BOOLOP', '==');
+                }
+                // Single = is an assignment operator
+                return this.makeToken('ASSIGN', '=');
+            }
+
+            // Make invalid character error more specific
+            const invalidChar = this.currentChar;
+            this.error('E101', `Invalid character '${invalidChar}'`);
+            return this.makeToken('ERROR', invalidChar);
+        }
+        this.tokenStart = this.here();
+        return this.makeToken('EOF', null);
+    }
+
+    // Helper method to format token output
+    static formatToken(token: Token): string {
+        let displayValue = token.value === null ? '' : token.value;
+        let style = '';
+        
+        // Don't display ERROR tokens since we show the error message instead
+        if (token.type === 'ERROR') {
+            return ''; // Return empty string for ERROR tokens
+        }
+        
+        return `<span style="${style}">LEXER --> | ${token.type} [ ${displayValue} ] on line ${token.line}:${token.column}</span>`;
+    }
+
+    // Add a method to get program status
+    getProgramStatus(): string {
+        if (this.diagnostics.length === 0) {
+            return `<div style="color: #4CAF50; font-weight: bold;">LEXER --> | Program completed successfully with 0 errors</div>`;
+        } else {
+            return `<div style="color: red; font-weight: bold;">LEXER --> | Program failed with ${this.diagnostics.length} error${this.diagnostics.length > 1 ? 's' : ''}</div>`;
+        }
+    }
+}
+
+// Make classes available globally
+(globalThis as any).Token = Token;
+(globalThis as any).Lexer = Lexer;
@@ -0,0 +1,36 @@
+// Minimal typings for the Node APIs used by the command-line tools
+// (the compiler itself only needs the browser globals)
+declare const require: (id: string) => any;
+declare const __dirname: string;
+declare const process: {
+    argv: string[];
+    exitCode?: number;
+    stdout: { write(data: string | Uint8Array): boolean };
+    stderr: { write(data: string | Uint8Array): boolean };
+};
+
+// Compiler scripts in the order index.html loads them
+const COMPILER_SCRIPTS = ['Diagnostics', 'Lexer', 'parser', 'AST', 'SemanticAnalyser', 'Optimizer', 'IR', 'CodeGen', 'Emulator', 'Interpreter', 'Pipeline'];
+
+// Load the compiled phase scripts so their classes register on globalThis
+function loadCompilerScripts(): void {
+    const path = require('path');
+    for (const script of COMPILER_SCRIPTS) {
+        require(path.join(__dirname, `${script}.js`));
+    }
+}
+
+// Format a 256-byte image as rows of 16 hex bytes
+function formatHexImage(binary: number[]): string {
+    let output = '';
+    for (let i = 0; i < binary.length; i += 16) {
+        output += binary.slice(i, i + 16)
+            .map(byte => byte.toString(16).padStart(2, '0').toUpperCase())
+            .join(' ') + '\n';
+    }
+    return output;
+}
+
+// Make the loader and shared helpers available globally
+(globalThis as any).loadCompilerScripts = loadCompilerScripts;
+(globalThis as any).formatHexImage = formatHexImage;
@@ -0,0 +1,465 @@
+// Which AST passes the Optimizer runs; every pass is on unless set to false
+interface OptimizerOptions {
+    fold?: boolean;       // Constant folding of additions and comparisons
+    propagate?: boolean;  // Constant and copy propagation into later reads
+    deadCode?: boolean;   // Drop if (false) blocks and while (false) loops
+    deadStores?: boolean; // Drop variables that are never read and stores of a value already held
+}
+
+// Rewrites made by each pass, keyed like OptimizerOptions
+interface OptimizerChanges {
+    fold: number;
+    propagate: number;
+    deadCode: number;
+    deadStores: number;
+}
+
+// What optimizing one program did
+interface OptimizationReport {
+    ast: ASTNode;          // The optimized copy CodeGen ran on
+    changes: OptimizerChanges;
+    bytesBefore: number;   // Image bytes (code, static data and heap) without the passes
+    bytesAfter: number;
+}
+
+// A variable declaration, so shadowing variables of the same name stay apart
+interface OptimizerVariable {
+    name: string;
+    read: boolean;
+}
+
+// What is known about a variable at one point: it holds a literal, or the value of another variable
+type OptimizerFact = { literal: ASTNode } | { copy: OptimizerVariable };
+
+// AST-level optimization passes run between SemanticAnalyser and CodeGen. Rewritten
+// nodes are always copies, so the analysed AST is left untouched; optimize() repeats
+// the passes until none of them changes anything. A call may assign any variable the
+// function can see, so nothing is known about any variable after one.
+class Optimizer {
+    private options: OptimizerOptions;
+    private changes: OptimizerChanges = { fold: 0, propagate: 0, deadCode: 0, deadStores: 0 };
+    private scopes: Map<string, OptimizerVariable>[] = []; // Innermost scope last
+    private facts: Map<OptimizerVariable, OptimizerFact> = new Map();
+
+    // Passes that are run at most this often, in case rewrites keep enabling each other
+    private static readonly MAX_ROUNDS = 10;
+
+    constructor(options: OptimizerOptions = {}) {
+        this.options = options;
+    }
+
+    private enabled(pass: keyof OptimizerOptions): boolean {
+        return this.options[pass] !== false;
+    }
+
+    optimize(ast: ASTNode): ASTNode {
+        let program = ast;
+        for (let round = 0; round < Optimizer.MAX_ROUNDS; round++) {
+            const before = Optimizer.totalChanges(this.changes);
+            program = this.rewriteProgram(program);
+            if (this.enabled('deadStores')) {
+                program = this.removeDeadStores(program);
+            }
+            if (Optimizer.totalChanges(this.changes) === before) {
+                break;
+            }
+        }
+        return program;
+    }
+
+    getChanges(): OptimizerChanges {
+        return this.changes;
+    }
+
+    // Folding, propagation and dead code removal in one forward walk
+    private rewriteProgram(program: ASTNode): ASTNode {
+        this.scopes = [];
+        this.facts = new Map();
+        return { ...program, children: program.children.map(block => this.rewriteBlock(block)) };
+    }
+
+    private rewriteBlock(block: ASTNode): ASTNode {
+        this.scopes.push(new Map());
+        const children: ASTNode[] = [];
+        for (const statement of block.children) {
+            const rewritten = this.rewriteStatement(statement);
+            if (rewritten) {
+                children.push(rewritten);
+            }
+        }
+        this.scopes.pop();
+        return { ...block, children };
+    }
+
+    // The rewritten statement, or null when it was removed
+    private rewriteStatement(node: ASTNode): ASTNode | null {
+        switch (node.type) {
+            case 'VarDecl': {
+                const variable: OptimizerVariable = { name: node.children[0].value!, read: false };
+                this.scopes[this.scopes.length - 1].set(variable.name, variable);
+                // Ints and booleans start at 0 and false
+                if (node.value !== 'string') {
+                    const initial = node.value === 'int' ? Optimizer.intLiteral(0, node) : Optimizer.boolLiteral(false, node);
+                    this.facts.set(variable, { literal: initial });
+                }
+                return node;
+            }
+            case 'Assignment': {
+                const value = this.rewriteExpr(node.children[1]);
+                const target = this.resolve(node.children[0].value!);
+                // Storing the value the variable is known to hold already changes nothing
+                const known = this.facts.get(target);
+                if (this.enabled('deadStores') && known && 'literal' in known && Optimizer.isLiteral(value)
+                    && Optimizer.literalValue(known.literal) === Optimizer.literalValue(value)) {
+                    this.changes.deadStores++;
+                    return null;
+                }
+                this.forget(target.name);
+                if (Optimizer.isLiteral(value)) {
+                    this.facts.set(target, { literal: value });
+                } else if (value.type === 'Id' && this.resolve(value.value!) !== target) {
+                    this.facts.set(target, { copy: this.resolve(value.value!) });
+                }
+                return { ...node, children: [node.children[0], value] };
+            }
+            case 'Print':
+            case 'Return':
+                return { ...node, children: node.children.map(child => this.rewriteExpr(child)) };
+            case 'Call':
+                return this.rewriteExpr(node);
+            case 'FuncDecl': {
+                // The body runs whenever the function is called, when nothing known here may hold
+                const [idNode, params, body] = node.children;
+                const outerFacts = this.facts;
+                this.facts = new Map();
+                this.scopes.push(Optimizer.paramScope(params));
+                const rewritten = this.rewriteBlock(body);
+                this.scopes.pop();
+                this.facts = outerFacts;
+                return { ...node, children: [idNode, params, rewritten] };
+            }
+            case 'IfStatement': {
+                const condition = this.rewriteExpr(node.children[0]);
+                if (this.enabled('deadCode') && Optimizer.isLiteral(condition)) {
+                    // Only one branch can ever run; it keeps its own block and scope
+                    this.changes.deadCode++;
+                    const branch = condition.value === 'true' ? node.children[1] : node.children[2];
+                    return branch ? this.rewriteStatement(branch) : null;
+                }
+                const before = new Map(this.facts);
+                const branches: ASTNode[] = [];
+                for (const branch of node.children.slice(1)) {
+                    // The then block is always kept; an else if may be removed entirely
+                    this.facts = new Map(before);
+                    const rewritten = this.rewriteStatement(branch);
+                    if (rewritten) {
+                        branches.push(rewritten);
+                    }
+                }
+                // Either branch may have run, so nothing it assigned is known afterwards
+                this.facts = before;
+                for (const branch of node.children.slice(1)) {
+                    Optimizer.assignedNames(branch).forEach(name => this.forget(name));
+                    if (ASTBuilder.containsCall(branch)) {
+                        this.facts = new Map();
+                    }
+                }
+                return { ...node, children: [condition, ...branches] };
+            }
+            case 'While': {
+                // The condition is re-evaluated after the body, which may have changed anything it assigns
+                Optimizer.assignedNames(node.children[1]).forEach(name => this.forget(name));
+                if (ASTBuilder.containsCall(node)) {
+                    this.facts = new Map();
+                }
+                const condition = this.rewriteExpr(node.children[0]);
+                if (this.enabled('deadCode') && Optimizer.isLiteral(condition) && condition.value === 'false') {
+                    this.changes.deadCode++;
+                    return null;
+                }
+                const before = new Map(this.facts);
+                const body = this.rewriteBlock(node.children[1]);
+                this.facts = before;
+                return { ...node, children: [condition, body] };
+            }
+            case 'Block':
+                return this.rewriteBlock(node);
+            default:
+                return node;
+        }
+    }
+
+    private rewriteExpr(node: ASTNode): ASTNode {
+        switch (node.type) {
+            case 'Id': {
+                const fact = this.enabled('propagate') ? this.facts.get(this.resolve(node.value!)) : undefined;
+                if (fact && 'literal' in fact) {
+                    this.changes.propagate++;
+                    return { ...fact.literal, line: node.line, column: node.column, start: node.start, end: node.end };
+                }
+                // A copy is only usable while its source is in scope and not shadowed
+                if (fact && 'copy' in fact && this.lookup(fact.copy.name) === fact.copy) {
+                    this.changes.propagate++;
+                    return { ...node, value: fact.copy.name };
+                }
+                return node;
+            }
+            case 'IntExpr': {
+                if (node.children.length === 0) {
+                    return node;
+                }
+                const rewritten = { ...node, children: node.children.map(child => this.rewriteExpr(child)) };
+                if (node.value === '+') {
+                    return this.foldSum(rewritten);
+                }
+                const [left, right] = rewritten.children;
+                if (this.enabled('fold') && Optimizer.isLiteral(left) && Optimizer.isLiteral(right)) {
+                    this.changes.fold++;
+                    const a = Optimizer.literalValue(left) as number;
+                    const b = Optimizer.literalValue(right) as number;
+                    return Optimizer.intLiteral((node.value === '-' ? a - b : a * b) & 0xFF, node);
+                }
+                return rewritten;
+            }
+            case 'boolexpr': {
+                if (node.children.length === 0) {
+                    return node;
+                }
+                if (node.value === 'not' || node.value === 'and' || node.value === 'or') {
+                    return this.foldLogic({ ...node, children: node.children.map(child => this.rewriteExpr(child)) });
+                }
+                const left = this.rewriteExpr(node.children[0]);
+                const right = this.rewriteExpr(node.children[1]);
+                if (this.enabled('fold') && Optimizer.isLiteral(left) && Optimizer.isLiteral(right)) {
+                    this.changes.fold++;
+                    return Optimizer.boolLiteral(Optimizer.compare(node.value!, Optimizer.literalValue(left), Optimizer.literalValue(right)), node);
+                }
+                return { ...node, children: [left, right] };
+            }
+            case 'Call': {
+                // The arguments are evaluated before the call, in order
+                const args = node.children.map(child => this.rewriteExpr(child));
+                this.facts = new Map();
+                return { ...node, children: args };
+            }
+            default:
+                return node;
+        }
+    }
+
+    // A literal operand of not, and or or decides the result or drops out. Only the left
+    // operand may decide it, so the right one is never removed unevaluated.
+    private foldLogic(node: ASTNode): ASTNode {
+        if (!this.enabled('fold')) {
+            return node;
+        }
+        const [left, right] = node.children;
+        if (node.value === 'not') {
+            if (!Optimizer.isLiteral(left)) {
+                return node;
+            }
+            this.changes.fold++;
+            return Optimizer.boolLiteral(!Optimizer.literalValue(left), node);
+        }
+
+        // The operand value that decides the result: false for and, true for or
+        const deciding = node.value === 'or';
+        if (Optimizer.isLiteral(left)) {
+            this.changes.fold++;
+            return Optimizer.literalValue(left) === deciding ? Optimizer.boolLiteral(deciding, node) : right;
+        }
+        if (Optimizer.isLiteral(right) && Optimizer.literalValue(right) !== deciding) {
+            this.changes.fold++;
+            return left;
+        }
+        return node;
+    }
+
+    // Addition wraps at 8 bits, so a chain of + can be reordered: all its literals are
+    // summed into one and a sum of 0 is dropped
+    private foldSum(node: ASTNode): ASTNode {
+        if (!this.enabled('fold')) {
+            return node;
+        }
+        const terms: ASTNode[] = [];
+        let constant = 0;
+        let literals = 0;
+        const collect = (term: ASTNode) => {
+            if (term.type === 'IntExpr' && term.value === '+' && term.children.length === 2) {
+                term.children.forEach(collect);
+            } else if (Optimizer.isLiteral(term)) {
+                constant = (constant + (Optimizer.literalValue(term) as number)) & 0xFF;
+                literals++;
+            } else {
+                terms.push(term);
+            }
+        };
+        collect(node);
+        if (literals < 2 && !(literals === 1 && constant === 0 && terms.length > 0)) {
+            return node;
+        }
+
+        this.changes.fold++;
+        if (constant !== 0 || terms.length === 0) {
+            terms.unshift(Optimizer.intLiteral(constant, node));
+        }
+        return terms.reduceRight((sum, term) => ({ ...node, value: '+', children: [term, sum] }));
+    }
+
+    // Declarations never read are removed with all their assignments; the right-hand
+    // sides have no side effects, so nothing observable is lost. A right-hand side that
+    // calls a function counts as a read, so the call is kept.
+    private removeDeadStores(program: ASTNode): ASTNode {
+        const variables: Map<ASTNode, OptimizerVariable> = new Map(); // VarDecl or Assignment -> its variable
+        this.scopes = [];
+        this.markReads(program, variables);
+        return this.sweep(program, variables);
+    }
+
+    private markReads(node: ASTNode, variables: Map<ASTNode, OptimizerVariable>): void {
+        switch (node.type) {
+            case 'Block':
+                this.scopes.push(new Map());
+                node.children.forEach(child => this.markReads(child, variables));
+                this.scopes.pop();
+                break;
+            case 'VarDecl': {
+                const variable: OptimizerVariable = { name: node.children[0].value!, read: false };
+                this.scopes[this.scopes.length - 1].set(variable.name, variable);
+                variables.set(node, variable);
+                break;
+            }
+            case 'Assignment': {
+                const variable = this.resolve(node.children[0].value!);
+                variables.set(node, variable);
+                if (ASTBuilder.containsCall(node.children[1])) {
+                    variable.read = true;
+                }
+                this.markReads(node.children[1], variables);
+                break;
+            }
+            case 'FuncDecl':
+                this.scopes.push(Optimizer.paramScope(node.children[1]));
+                this.markReads(node.children[2], variables);
+                this.scopes.pop();
+                break;
+            case 'Id':
+                this.resolve(node.value!).read = true;
+                break;
+            default:
+                node.children.forEach(child => this.markReads(child, variables));
+        }
+    }
+
+    private sweep(node: ASTNode, variables: Map<ASTNode, OptimizerVariable>): ASTNode {
+        const children: ASTNode[] = [];
+        for (const child of node.children) {
+            const variable = variables.get(child);
+            if (variable && !variable.read) {
+                this.changes.deadStores++;
+            } else {
+                children.push(this.sweep(child, variables));
+            }
+        }
+        return { ...node, children };
+    }
+
+    private lookup(name: string): OptimizerVariable | undefined {
+        for (let i = this.scopes.length - 1; i >= 0; i--) {
+            const variable = this.scopes[i].get(name);
+            if (variable) {
+                return variable;
+            }
+        }
+        return undefined;
+    }
+
+    private resolve(name: string): OptimizerVariable {
+        const variable = this.lookup(name);
+        if (!variable) {
+            throw new Error(`Optimizer: variable '${name}' is not declared`);
+        }
+        return variable;
+    }
+
+    // The scope around a function's body that holds its parameters
+    private static paramScope(params: ASTNode): Map<string, OptimizerVariable> {
+        const scope: Map<string, OptimizerVariable> = new Map();
+        for (const param of params.children) {
+            scope.set(param.children[0].value!, { name: param.children[0].value!, read: false });
+        }
+        return scope;
+    }
+
+    // Drop what is known about every variable called name, and every copy of one
+    private forget(name: string): void {
+        this.facts.forEach((fact, variable) => {
+            if (variable.name === name || ('copy' in fact && fact.copy.name === name)) {
+                this.facts.delete(variable);
+            }
+        });
+    }
+
+    // Names assigned anywhere inside a statement
+    private static assignedNames(node: ASTNode): Set<string> {
+        const names: Set<string> = new Set();
+        const visit = (child: ASTNode) => {
+            if (child.type === 'Assignment') {
+                names.add(child.children[0].value!);
+            }
+            child.children.forEach(visit);
+        };
+        visit(node);
+        return names;
+    }
+
+    private static isLiteral(node: ASTNode): boolean {
+        return (node.type === 'IntExpr' || node.type === 'boolexpr' || node.type === 'StringExpr') && node.children.length === 0;
+    }
+
+    private static literalValue(node: ASTNode): number | string | boolean {
+        switch (node.type) {
+            case 'IntExpr':
+                return parseInt(node.value!, 10);
+            case 'boolexpr':
+                return node.value === 'true';
+            default:
+                return node.value || '';
+        }
+    }
+
+    // The relational operators only type-check on ints, which compare unsigned
+    private static compare(op: string, left: number | string | boolean, right: number | string | boolean): boolean {
+        switch (op) {
+            case '==': return left === right;
+            case '!=': return left !== right;
+            case '<': return left < right;
+            case '<=': return left <= right;
+            case '>': return left > right;
+            default: return left >= right;
+        }
+    }
+
+    // Literals take the span of the expression they replace
+    private static intLiteral(value: number, at: ASTNode): ASTNode {
+        return { type: 'IntExpr', value: String(value), children: [], line: at.line, column: at.column, start: at.start, end: at.end };
+    }
+
+    private static boolLiteral(value: boolean, at: ASTNode): ASTNode {
+        return { type: 'boolexpr', value: String(value), children: [], line: at.line, column: at.column, start: at.start, end: at.end };
+    }
+
+    static totalChanges(changes: OptimizerChanges): number {
+        return changes.fold + changes.propagate + changes.deadCode + changes.deadStores;
+    }
+
+    // One-line summary, e.g. "saved 12 bytes (84 -> 72): 2 folded, 1 propagated, 0 dead code, 1 dead store"
+    static formatReport(report: OptimizationReport): string {
+        const { fold, propagate, deadCode, deadStores } = report.changes;
+        return `saved ${report.bytesBefore - report.bytesAfter} bytes (${report.bytesBefore} -> ${report.bytesAfter}): ` +
+            `${fold} folded, ${propagate} propagated, ${deadCode} dead code, ${deadStores} dead store${deadStores === 1 ? '' : 's'}`;
+    }
+}
+
+// Make class available globally
+(globalThis as any).Optimizer = Optimizer;
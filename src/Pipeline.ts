@@ -0,0 +1,205 @@
+// Alan++ dialect. 'classic' is the course language, where every DIGIT token is one digit
+// and every ID one letter; 'extended' lexes integer literals up to 255 and longer identifiers.
+type LanguageLevel = 'classic' | 'extended';
+
+// Options controlling a single run of the compiler pipeline
+interface CompileOptions {
+    trace?: boolean;             // Collect the debug output of every phase
+    optimize?: OptimizerOptions; // Optimizer passes to skip; all of them run by default
+    language?: LanguageLevel;    // Only used when compileProgram is given source text; classic by default
+}
+
+// Everything one compiler phase reported while it ran
+interface PhaseReport {
+    ran: boolean;
+    diagnostics: Diagnostic[];
+    trace: string[];
+}
+
+// Symbol table row as produced by SemanticAnalyser.getSymbolTableData()
+type SymbolTableRow = ReturnType<SemanticAnalyser['getSymbolTableData']>[number];
+
+// One '$'-terminated program of a source file
+interface ProgramSource {
+    source: string;            // The whole file, so every position stays absolute
+    tokens: Token[];           // The program's tokens, up to and including its '$'
+    diagnostics: Diagnostic[]; // Lexer diagnostics reported inside the program
+}
+
+// Structured result of running Lexer -> Parser -> SemanticAnalyser -> CodeGen on one program
+interface CompileResult {
+    source: string;            // The whole file the program came from
+    tokens: Token[];
+    cst: TreeNode | null;
+    ast: ASTNode | null;
+    symbols: SymbolTableRow[];
+    optimization: OptimizationReport | null;
+    ir: IRProgram | null;      // Three-address IR the assembly was selected from
+    assembly: string[];
+    binary: number[];          // 256-byte memory image, empty when code generation did not run
+    sourceMap: SourceMapEntry[];
+    lexer: PhaseReport;
+    parser: PhaseReport;
+    semantic: PhaseReport;
+    codegen: PhaseReport;
+    generator: CodeGen | null; // Kept so the HTML visualizers can render the generated code
+    fatalError: string | null; // Set when a phase threw instead of reporting an error
+    success: boolean;
+}
+
+function createPhaseReport(): PhaseReport {
+    return { ran: false, diagnostics: [], trace: [] };
+}
+
+// Errors reported by one phase; warnings and hints never stop the pipeline
+function phaseErrors(report: PhaseReport): Diagnostic[] {
+    return diagnosticsWithSeverity(report.diagnostics, 'error');
+}
+
+// Every diagnostic of a program, in phase order
+function collectDiagnostics(result: CompileResult): Diagnostic[] {
+    return [
+        ...result.lexer.diagnostics,
+        ...result.parser.diagnostics,
+        ...result.semantic.diagnostics,
+        ...result.codegen.diagnostics
+    ];
+}
+
+// Bytes of the image taken by code, static data and the heap
+function usedImageBytes(generator: CodeGen): number {
+    return generator.getMemoryRegions()
+        .filter(region => region.name !== 'Free')
+        .reduce((total, region) => total + region.size, 0);
+}
+
+// Split a source file into its programs at the lexer's EOP tokens, so a '$' inside a
+// comment or string does not end a program. The file is lexed once, which keeps line and
+// column numbers relative to the whole file.
+function splitPrograms(source: string, language: LanguageLevel = 'classic'): ProgramSource[] {
+    const programs: ProgramSource[] = [];
+    const lexer = new Lexer(source, language);
+    let program: ProgramSource = { source, tokens: [], diagnostics: [] };
+    let token: Token;
+    while ((token = lexer.getNextToken()).type !== 'EOF') {
+        program.tokens.push(token);
+        // Errors belong to the program that was being lexed when they were found
+        program.diagnostics.push(...lexer.diagnostics.splice(0));
+        if (token.type === 'EOP') {
+            programs.push(program);
+            program = { source, tokens: [], diagnostics: [] };
+        }
+    }
+    program.diagnostics.push(...lexer.diagnostics.splice(0));
+
+    // Whatever follows the last '$' is one more program, unless it is only whitespace and comments
+    if (program.tokens.length > 0 || program.diagnostics.length > 0) {
+        const position = program.tokens.length > 0 ? program.tokens[program.tokens.length - 1].end : token.start;
+        program.diagnostics.push(createDiagnostic('lexer', 'warning', 'W101',
+            `Program ${programs.length + 1} ended without an EOP ($) symbol`, position));
+        programs.push(program);
+    }
+    return programs;
+}
+
+// Run every phase on a single program without touching the DOM. Given source text,
+// the first program in it is compiled.
+function compileProgram(program: ProgramSource | string, options: CompileOptions = {}): CompileResult {
+    if (typeof program === 'string') {
+        program = splitPrograms(program, options.language)[0] || { source: program, tokens: [], diagnostics: [] };
+    }
+    const result: CompileResult = {
+        source: program.source,
+        tokens: [],
+        cst: null,
+        ast: null,
+        symbols: [],
+        optimization: null,
+        ir: null,
+        assembly: [],
+        binary: [],
+        sourceMap: [],
+        lexer: createPhaseReport(),
+        parser: createPhaseReport(),
+        semantic: createPhaseReport(),
+        codegen: createPhaseReport(),
+        generator: null,
+        fatalError: null,
+        success: false
+    };
+
+    try {
+        // Lexical Analysis
+        result.lexer.ran = true;
+        result.tokens = program.tokens;
+        result.lexer.diagnostics = program.diagnostics;
+        if (phaseErrors(result.lexer).length > 0) {
+            return result;
+        }
+
+        // Parsing
+        result.parser.ran = true;
+        const parser = new Parser(result.tokens);
+        if (options.trace) {
+            parser.enableDebug(msg => result.parser.trace.push(msg));
+        }
+        result.cst = parser.parseProgram();
+        result.parser.diagnostics = parser.getDiagnostics();
+        if (phaseErrors(result.parser).length > 0 || !result.cst) {
+            return result;
+        }
+
+        // Semantic Analysis
+        result.semantic.ran = true;
+        const semanticAnalyser = new SemanticAnalyser(ASTBuilder.build(result.cst));
+        if (options.trace) {
+            semanticAnalyser.enableDebug(msg => result.semantic.trace.push(msg));
+        }
+        const ast = semanticAnalyser.analyzeProgram();
+        result.semantic.diagnostics = semanticAnalyser.getDiagnostics();
+        if (phaseErrors(result.semantic).length > 0 || !ast) {
+            return result;
+        }
+        result.ast = ast;
+        result.symbols = semanticAnalyser.getSymbolTableData();
+
+        // Optimization works on a copy; result.ast stays the analysed program
+        const optimizer = new Optimizer(options.optimize);
+        const optimized = optimizer.optimize(ast);
+
+        // Code Generation
+        result.codegen.ran = true;
+        const codeGenerator = new CodeGen(optimized);
+        if (options.trace) {
+            codeGenerator.enableDebug();
+        }
+        result.generator = codeGenerator;
+        result.assembly = codeGenerator.generate();
+        result.ir = codeGenerator.getIR();
+        result.binary = codeGenerator.getBinaryCode();
+        result.sourceMap = codeGenerator.getSourceMap();
+        result.codegen.trace = codeGenerator.getDebugMessages();
+        result.codegen.diagnostics = codeGenerator.getDiagnostics();
+        result.success = phaseErrors(result.codegen).length === 0 && result.assembly.length > 0;
+
+        // Bytes saved are measured against the code the unoptimized AST would get
+        const bytesAfter = usedImageBytes(codeGenerator);
+        let bytesBefore = bytesAfter;
+        if (Optimizer.totalChanges(optimizer.getChanges()) > 0) {
+            const unoptimized = new CodeGen(ast);
+            unoptimized.generate();
+            bytesBefore = usedImageBytes(unoptimized);
+        }
+        result.optimization = { ast: optimized, changes: optimizer.getChanges(), bytesBefore, bytesAfter };
+    } catch (error) {
+        result.fatalError = String(error);
+    }
+
+    return result;
+}
+
+// Make the pipeline available globally
+(globalThis as any).compileProgram = compileProgram;
+(globalThis as any).splitPrograms = splitPrograms;
+(globalThis as any).phaseErrors = phaseErrors;
+(globalThis as any).collectDiagnostics = collectDiagnostics;
@@ -1,34 +1,18 @@
-// Import Token type from lexer
-interface Token {
-    type: string;
-    value: string | null;
-    line: number;
-    column: number;
-}
-
-// Token class implementation
-class TokenImpl implements Token {
-    type: string;
-    value: string | null;
-    line: number;
-    column: number;
-
-    constructor(type: string, value: string | null, line: number = 0, column: number = 0) {
-        this.type = type;
-        this.value = value;
-        this.line = line;
-        this.column = column;
-    }
-}
+// What a name in the symbol table stands for
+type SymbolKind = 'variable' | 'parameter' | 'function';
 
 // Symbol table entry interface
 interface SymbolTableEntry {
     name: string;    // Adding name to the entry itself
-    type: string;
+    type: string;    // A function's return type, or void
+    kind: SymbolKind;
+    params: string[]; // Parameter types of a function
     isInitialized: boolean;
     isUsed: boolean;
     line: number;
     column: number;
+    start?: SourcePosition; // Span of the declared identifier
+    end?: SourcePosition;
 }
 
 // Enhanced Symbol table class with proper scope management
@@ -73,17 +57,22 @@ class SymbolTable {
     }
 
     // Add a symbol to the table
-    addSymbol(name: string, type: string, line: number, column: number): boolean {
+    addSymbol(name: string, type: string, line: number, column: number, start?: SourcePosition, end?: SourcePosition,
+              kind: SymbolKind = 'variable', params: string[] = []): boolean {
         if (this.symbols.has(name)) {
             return false; // Symbol already exists in this scope
         }
         this.symbols.set(name, { 
             name, 
             type, 
-            isInitialized: false, 
+            kind,
+            params,
+            isInitialized: kind !== 'variable', // Parameters hold their argument, functions their body
             isUsed: false, 
             line, 
-            column 
+            column,
+            start,
+            end
         });
         return true;
     }
@@ -216,37 +205,22 @@ class SymbolTable {
     }
 }
 
-// AST Node interface
-interface ASTNode {
-    type: string;
-    value?: string;
-    children: ASTNode[];
-    line?: number;
-    column?: number;
-}
-
 class SemanticAnalyser {
-    private tokens: Token[];
-    private currentTokenIndex: number;
-    private errors: string[];
-    private warnings: string[];
+    private ast: ASTNode;
+    private diagnostics: Diagnostic[];
     private symbolTable: SymbolTable;
     private currentScope: SymbolTable; // Track current active scope
-    private ast: ASTNode | null;
     private debugCallback?: (message: string) => void;
-    private hints: { message: string; line: number; column: number }[];
     private scopeStack: SymbolTable[]; // Stack to track scope hierarchy
+    private functionStack: SymbolTableEntry[]; // Functions whose bodies are being analysed, innermost last
 
-    constructor(tokens: Token[]) {
-        this.tokens = tokens;
-        this.currentTokenIndex = 0;
-        this.errors = [];
-        this.warnings = [];
-        this.hints = [];
+    constructor(ast: ASTNode) {
+        this.ast = ast;
+        this.diagnostics = [];
         this.symbolTable = new SymbolTable(); // Global scope
         this.currentScope = this.symbolTable;  // Start in global scope
         this.scopeStack = [this.symbolTable];  // Track scope stack
-        this.ast = null;
+        this.functionStack = [];
     }
 
     // Helper methods for scope management
@@ -261,849 +235,374 @@ class SemanticAnalyser {
             this.debug("Cannot exit global scope");
             return;
         }
-        
+
         this.scopeStack.pop();
         this.currentScope = this.scopeStack[this.scopeStack.length - 1];
         this.debug(`Exiting to scope at level ${this.currentScope.getScopeLevel()}`);
     }
 
-    // Helper methods
-    private getCurrentToken(): Token {
-        if (this.currentTokenIndex >= this.tokens.length) {
-            return new TokenImpl('EOF', null);
-        }
-        return this.tokens[this.currentTokenIndex];
-    }
-
-    private advance(): void {
-        if (this.currentTokenIndex < this.tokens.length) {
-            this.currentTokenIndex++;
-        }
+    private addError(code: string, message: string, node: ASTNode, hints: string[] = []): void {
+        this.report('error', code, message, node, hints);
     }
 
-    private addError(message: string, line: number, column: number): void {
-        this.errors.push(`SEMANTIC --> Error: ${message} at line ${line}:${column}`);
-        this.debug(`ERROR: ${message} at line ${line}:${column}`);
+    private addWarning(code: string, message: string, at: ASTNode | SymbolTableEntry, hints: string[] = []): void {
+        this.report('warning', code, message, at, hints);
     }
 
-    private addWarning(message: string, line: number, column: number): void {
-        this.warnings.push(`SEMANTIC --> Warning: ${message} at line ${line}:${column}`);
-        this.debug(`WARNING: ${message} at line ${line}:${column}`);
+    private addHint(code: string, message: string, node: ASTNode): void {
+        this.report('hint', code, message, node, []);
     }
 
-    private addHint(message: string, line: number, column: number) {
-        this.hints.push({
-            message,
-            line,
-            column
-        });
+    // Diagnostics cover the span of the node (or declaration) they are about
+    private report(severity: DiagnosticSeverity, code: string, message: string, at: ASTNode | SymbolTableEntry, hints: string[]): void {
+        this.diagnostics.push(createDiagnostic('semantic', severity, code, message, at.start || null, at.end || null, hints));
+        if (severity !== 'hint') {
+            this.debug(`${severity.toUpperCase()}: ${message} at line ${at.line}:${at.column}`);
+        }
     }
 
-    // Semantic analysis methods
+    // Semantic analysis pass over the AST built from the Parser's CST
     analyzeProgram(): ASTNode | null {
         this.debug('Starting semantic analysis');
-        const programNode: ASTNode = {
-            type: 'Program',
-            children: []
-        };
-
-        // Analyze the block
-        const blockNode = this.analyzeBlock(false); // Parameter indicates if this is an if block
-        if (blockNode) {
-            programNode.children.push(blockNode);
-        }
 
-        // Check for EOP
-        if (this.getCurrentToken().type !== 'EOP') {
-            this.addError("Expected end of program symbol '$'", 
-                this.getCurrentToken().line, 
-                this.getCurrentToken().column);
-            return null;
+        // Program ::== Block $
+        for (const block of this.ast.children) {
+            this.analyzeBlock(block);
         }
 
         // Check for unused variables
         this.checkUnusedVariables();
 
-        this.ast = programNode;
-        return programNode;
+        return this.ast;
     }
 
-    private analyzeBlock(isIfBlock: boolean = false): ASTNode | null {
-        const blockNode: ASTNode = {
-            type: 'Block',
-            children: []
-        };
-
-        // Only create a new scope if this is not an if statement block
-        if (!isIfBlock) {
-            this.enterScope(); // Create a new scope for this block
-        }
-
-        // Expect opening brace
-        if (!this.expect('LBRACE', "Expected '{' at start of block")) {
-            return null;
-        }
-
-        // Analyze statements until we find the closing brace
-        while (this.getCurrentToken().type !== 'RBRACE' && 
-               this.getCurrentToken().type !== 'EOF') {
-            const stmtNode = this.analyzeStatement();
-            if (stmtNode) {
-                blockNode.children.push(stmtNode);
-            } else {
-                // If we couldn't parse a statement, try to recover by advancing
-                this.advance();
-            }
-        }
-
-        // Expect closing brace
-        if (!this.expect('RBRACE', "Expected '}' at end of block")) {
-            return null;
-        }
-
-        // Only exit scope if we created a new one
-        if (!isIfBlock) {
-            this.exitScope(); // Return to parent scope
+    // Every block opens its own scope, including the bodies of if and while
+    private analyzeBlock(block: ASTNode): void {
+        this.enterScope();
+        for (const statement of block.children) {
+            this.analyzeStatement(statement);
         }
-
-        return blockNode;
+        this.exitScope();
     }
 
-    private analyzeStatement(): ASTNode | null {
-        const token = this.getCurrentToken();
-        
-        switch (token.type) {
-            case 'TYPE':
-                return this.analyzeVarDecl();
-            case 'ID':
-                return this.analyzeAssignment();
-            case 'PRINT':
-                return this.analyzePrint();
-            case 'WHILE':
-                return this.analyzeWhile();
-            case 'IF':
-                return this.analyzeIf();
-            case 'LBRACE':
-                return this.analyzeBlock();
-            case 'RBRACE':
-                // End of block, return null to stop statement analysis
-                return null;
+    private analyzeStatement(node: ASTNode): void {
+        switch (node.type) {
+            case 'VarDecl':
+                this.analyzeVarDecl(node);
+                break;
+            case 'Assignment':
+                this.analyzeAssignment(node);
+                break;
+            case 'Print':
+                this.debug(`Analyzing print statement at line ${node.line}`);
+                this.analyzeExpression(node.children[0]);
+                break;
+            case 'While':
+                this.analyzeWhile(node);
+                break;
+            case 'IfStatement':
+                this.analyzeIf(node);
+                break;
+            case 'FuncDecl':
+                this.analyzeFuncDecl(node);
+                break;
+            case 'Return':
+                this.analyzeReturn(node);
+                break;
+            case 'Call':
+                // A call statement may discard the result, so void functions are fine here
+                this.analyzeCall(node, false);
+                break;
+            case 'Block':
+                this.analyzeBlock(node);
+                break;
             default:
-                this.addError(`Unexpected token: ${token.type}`, token.line, token.column);
-                return null;
+                this.addError('E307', `Unexpected statement: ${node.type}`, node);
         }
     }
 
-    private analyzeVarDecl(): ASTNode | null {
-        const typeToken = this.getCurrentToken();
-        this.advance();
-
-        const idToken = this.getCurrentToken();
-        if (idToken.type !== 'ID') {
-            this.addError("Expected identifier after type declaration", 
-                idToken.line, 
-                idToken.column);
-            return null;
-        }
+    private analyzeVarDecl(node: ASTNode): void {
+        const idNode = node.children[0];
 
         // Check if variable already exists in current scope only
-        if (this.currentScope.lookupSymbolInCurrentScope(idToken.value!)) {
-            this.addError(`Variable '${idToken.value}' already declared in this scope`, 
-                idToken.line, 
-                idToken.column);
+        if (this.currentScope.lookupSymbolInCurrentScope(idNode.value!)) {
+            this.addError('E302', `Variable '${idNode.value}' already declared in this scope`, idNode);
         } else {
             // Add to symbol table in current scope
-            this.currentScope.addSymbol(idToken.value!, typeToken.value!, 
-                idToken.line, idToken.column);
-            this.debug(`Added symbol '${idToken.value}' with type '${typeToken.value}' to scope level ${this.currentScope.getScopeLevel()}`);
+            this.currentScope.addSymbol(idNode.value!, node.value!, idNode.line!, idNode.column!, idNode.start, idNode.end);
+            this.debug(`Added symbol '${idNode.value}' with type '${node.value}' to scope level ${this.currentScope.getScopeLevel()}`);
         }
-
-        this.advance();
-
-        return {
-            type: 'VarDecl',
-            value: typeToken.value,
-            children: [{
-                type: 'Id',
-                value: idToken.value!,
-                line: idToken.line,
-                column: idToken.column,
-                children: []
-            }]
-        };
     }
 
-    private analyzeAssignment(): ASTNode | null {
-        const idToken = this.getCurrentToken();
-        const symbol = this.currentScope.lookupSymbol(idToken.value!);
-        
+    private analyzeAssignment(node: ASTNode): void {
+        const [idNode, exprNode] = node.children;
+        const symbol = this.currentScope.lookupSymbol(idNode.value!);
+
         if (!symbol) {
-            this.addError(`Variable '${idToken.value}' not declared`, 
-                idToken.line, 
-                idToken.column);
-            this.addHint(`Consider declaring the variable before using it: 'int ${idToken.value};'`, 
-                idToken.line, 
-                idToken.column);
+            this.addError('E301', `Variable '${idNode.value}' not declared`, idNode,
+                [`Consider declaring the variable before using it: 'int ${idNode.value};'`]);
+        } else if (symbol.kind === 'function') {
+            this.addError('E311', `Cannot assign to function '${idNode.value}'`, idNode);
+            this.analyzeExpression(exprNode);
+            return;
         }
 
-        this.advance();
-        
-        if (this.getCurrentToken().type !== 'ASSIGN') {
-            this.addError("Expected '=' in assignment", 
-                this.getCurrentToken().line, 
-                this.getCurrentToken().column);
-            this.addHint("Make sure to use a single '=' for assignment, not '==' which is for comparison", 
-                this.getCurrentToken().line, 
-                this.getCurrentToken().column);
-            return null;
-        }
-        this.advance();
+        const actualType = this.analyzeExpression(exprNode);
 
-        const exprNode = this.analyzeExpression();
-        if (!exprNode) {
-            return null;
-        }
-
-        // Type checking - normalize types
-        if (symbol) {
-            const expectedType = symbol.type.toLowerCase();
-            const actualType = exprNode.type.toLowerCase();
-            
-            // Handle int expressions
-            if (expectedType === 'int' && (actualType === 'intexpr' || actualType === 'digit')) {
-                // This is valid
-            }
-            // Handle string expressions
-            else if (expectedType === 'string' && actualType === 'stringexpr') {
-                // This is valid
-            }
-            // Handle boolean expressions and literals
-            else if (expectedType === 'boolean' && (actualType === 'boolexpr' || actualType === 'boolval')) {
-                // This is valid
-            }
-            // Handle direct type matches
-            else if (expectedType === actualType) {
-                // This is valid
-            }
-            else {
-                this.addError(`Type mismatch: cannot assign ${actualType} to ${expectedType}`, 
-                    idToken.line, 
-                    idToken.column);
-                this.addHint(`Consider converting the value to ${expectedType} or changing the variable type to ${actualType}`, 
-                    idToken.line, 
-                    idToken.column);
-            }
+        // Type checking - unknown means an error was already reported for the expression
+        if (symbol && actualType !== 'unknown' && symbol.type !== actualType) {
+            this.addError('E303', `Type mismatch: cannot assign ${actualType} to ${symbol.type}`, idNode,
+                [`Consider converting the value to ${symbol.type} or changing the variable type to ${actualType}`]);
         }
 
         // Mark as initialized
         if (symbol) {
-            this.currentScope.markInitialized(idToken.value!);
+            this.currentScope.markInitialized(idNode.value!);
         }
-
-        return {
-            type: 'Assignment',
-            children: [
-                {
-                    type: 'Id',
-                    value: idToken.value!,
-                    line: idToken.line,
-                    column: idToken.column,
-                    children: []
-                },
-                exprNode
-            ]
-        };
     }
 
-    private analyzeExpression(): ASTNode | null {
-        const token = this.getCurrentToken();
-        this.debug(`Analyzing expression starting with token: ${token.type} [${token.value}]`);
-        
-        // Handle parenthesized expressions
-        if (token.type === 'LPAREN') {
-            this.debug("Found opening parenthesis in expression");
-            this.advance();
-            const expr = this.analyzeExpression();
-            if (!expr) {
-                this.debug("Failed to parse expression inside parentheses");
-                return null;
-            }
-            this.debug(`Successfully parsed expression inside parentheses: ${expr.type}`);
-            
-            this.debug(`Current token after parenthesized expression: ${this.getCurrentToken().type}`);
-            if (this.getCurrentToken().type !== 'RPAREN') {
-                this.addError("Expected ')' after expression", 
-                    token.line, 
-                    token.column);
-                return null;
+    // The parameters get a scope of their own around the body's block scope. The function's
+    // name is declared first, so a call to itself can be reported as recursion.
+    private analyzeFuncDecl(node: ASTNode): void {
+        const [idNode, params, body] = node.children;
+        const paramTypes = params.children.map(param => param.value!);
+        let table = this.currentScope;
+        if (table.lookupSymbolInCurrentScope(idNode.value!)) {
+            this.addError('E302', `Function '${idNode.value}' already declared in this scope`, idNode);
+            // The body is still checked against its own signature, kept out of the scope
+            table = new SymbolTable();
+        }
+        table.addSymbol(idNode.value!, node.value!, idNode.line!, idNode.column!, idNode.start, idNode.end, 'function', paramTypes);
+        const symbol = table.lookupSymbolInCurrentScope(idNode.value!)!;
+        this.debug(`Added function '${idNode.value}(${paramTypes.join(', ')})' returning '${node.value}' to scope level ${this.currentScope.getScopeLevel()}`);
+
+        this.enterScope();
+        for (const param of params.children) {
+            const paramId = param.children[0];
+            if (!this.currentScope.addSymbol(paramId.value!, param.value!, paramId.line!, paramId.column!, paramId.start, paramId.end, 'parameter')) {
+                this.addError('E302', `Parameter '${paramId.value}' already declared in function '${idNode.value}'`, paramId);
             }
-            this.debug("Found closing parenthesis in expression");
-            this.advance();
-            return expr;
         }
-        
-        // Handle basic expressions
-        switch (token.type) {
-            case 'DIGIT':
-                this.debug("Found digit in expression");
-                return this.analyzeIntExpr();
-            case 'QUOTE':
-                this.debug(`Found quote in expression (start of string)`);
-                return this.analyzeStringExpr();
-            case 'BOOLVAL':
-                this.debug("Found boolean value in expression");
-                return this.analyzeBoolExpr();
-            case 'ID':
-                this.debug(`Found identifier in expression: ${token.value}`);
-                const symbol = this.currentScope.lookupSymbol(token.value!);
-                if (!symbol) {
-                    this.addError(`Variable '${token.value}' not declared`, 
-                        token.line, 
-                        token.column);
-                } else if (!symbol.isInitialized) {
-                    // Only issue a warning if we're sure the variable hasn't been initialized
-                    // and we're trying to read its value (not just setting it)
-                    this.addWarning(`Variable '${token.value}' is used before being initialized`, 
-                        token.line, 
-                        token.column);
-                    this.addHint(`Initialize '${token.value}' before using it in an expression`, 
-                        token.line, 
-                        token.column);
-                }
-                // Mark the variable as used
-                this.currentScope.markUsed(token.value!);
-                this.advance();
-                return {
-                    type: 'Id',
-                    value: token.value!,
-                    line: token.line,
-                    column: token.column,
-                    children: []
-                };
-            default:
-                this.debug(`Unexpected token type in expression: ${token.type}`);
-                this.addError(`Unexpected token in expression: ${token.type}`, 
-                    token.line, 
-                    token.column);
-                return null;
+        this.functionStack.push(symbol);
+        this.analyzeBlock(body);
+        this.functionStack.pop();
+        this.exitScope();
+
+        if (node.value !== 'void' && !SemanticAnalyser.alwaysReturns(body)) {
+            this.addError('E315', `Function '${idNode.value}' does not return a value on every path`, idNode,
+                [`End every path through the body with a return of type ${node.value}`]);
         }
     }
 
-    private analyzeIntExpr(): ASTNode | null {
-        const token = this.getCurrentToken();
-        this.debug(`Analyzing integer expression starting with: ${token.type} [${token.value}]`);
-
-        // First parse the left operand
-        let leftExpr: ASTNode | null = null;
-
-        // Handle parenthesized expressions
-        if (token.type === 'LPAREN') {
-            this.debug("Found opening parenthesis in integer expression");
-            this.advance();
-            
-            leftExpr = this.analyzeExpression();
-            if (!leftExpr) {
-                this.debug("Failed to parse expression inside parentheses");
-                return null;
-            }
+    // Whether every path through a statement ends in a return. Loops may run zero times,
+    // so only a return outside them, or in both branches of an if/else, counts.
+    private static alwaysReturns(node: ASTNode): boolean {
+        switch (node.type) {
+            case 'Return':
+                return true;
+            case 'Block':
+                return node.children.some(statement => SemanticAnalyser.alwaysReturns(statement));
+            case 'IfStatement':
+                return node.children.length > 2 &&
+                    SemanticAnalyser.alwaysReturns(node.children[1]) && SemanticAnalyser.alwaysReturns(node.children[2]);
+            default:
+                return false;
+        }
+    }
 
-            // Check if the expression inside parentheses is an integer
-            const exprType = this.getExpressionType(leftExpr);
-            if (exprType !== 'int') {
-                this.addError(`Invalid type in arithmetic expression: expected int, got ${exprType}`, 
-                    token.line, 
-                    token.column);
-                this.addHint(`Consider using integer values or variables in arithmetic expressions`, 
-                    token.line, 
-                    token.column);
-                return null;
-            }
+    private analyzeReturn(node: ASTNode): void {
+        const valueNode = node.children[0];
+        const valueType = valueNode ? this.analyzeExpression(valueNode) : 'void';
+        const fn = this.functionStack[this.functionStack.length - 1];
+        if (!fn) {
+            this.addError('E314', `'return' outside of a function`, node);
+        } else if (fn.type === 'void' && valueNode) {
+            this.addError('E314', `Function '${fn.name}' has no return type but returns a value`, valueNode,
+                [`Declare the return type, e.g. 'func ${fn.name}(...): ${valueType === 'unknown' ? 'int' : valueType}'`]);
+        } else if (fn.type !== 'void' && !valueNode) {
+            this.addError('E314', `Function '${fn.name}' must return a value of type ${fn.type}`, node);
+        } else if (valueType !== 'unknown' && valueType !== fn.type) {
+            this.addError('E314', `Type mismatch: function '${fn.name}' returns ${fn.type}, got ${valueType}`, valueNode);
+        }
+    }
 
-            if (this.getCurrentToken().type !== 'RPAREN') {
-                this.addError("Expected ')' after expression", 
-                    this.getCurrentToken().line, 
-                    this.getCurrentToken().column);
-                this.addHint("Make sure to close all parentheses in arithmetic expressions", 
-                    this.getCurrentToken().line, 
-                    this.getCurrentToken().column);
-                return null;
-            }
-            this.debug("Found closing parenthesis in integer expression");
-            this.advance();
+    // Check a call's arguments against the function's parameters and return its result
+    // type. As a value (asValue) the function must return one.
+    private analyzeCall(node: ASTNode, asValue: boolean): string {
+        const name = node.value!;
+        const symbol = this.currentScope.lookupSymbol(name);
+        const argTypes = node.children.map(arg => this.analyzeExpression(arg));
+        if (!symbol) {
+            this.addError('E301', `Function '${name}' not declared`, node,
+                [`Declare the function before calling it: 'func ${name}() { ... }'`]);
+            return 'unknown';
         }
-        // Handle basic integer expressions
-        else if (token.type === 'DIGIT') {
-            this.debug(`Found digit: ${token.value}`);
-            leftExpr = {
-                type: 'IntExpr',
-                value: token.value!,
-                children: []
-            };
-            this.advance();
+        if (symbol.kind !== 'function') {
+            this.addError('E310', `'${name}' is a ${symbol.kind}, not a function`, node);
+            return 'unknown';
         }
-        // Handle identifier
-        else if (token.type === 'ID') {
-            const symbol = this.currentScope.lookupSymbol(token.value!);
-            if (!symbol) {
-                this.addError(`Undeclared variable: ${token.value}`, token.line, token.column);
-                this.addHint(`Consider declaring the variable before using it: 'int ${token.value};'`, 
-                    token.line, 
-                    token.column);
-                return null;
-            }
-            if (symbol.type !== 'int') {
-                this.addError(`Invalid type in arithmetic expression: expected int, got ${symbol.type}`, 
-                    token.line, 
-                    token.column);
-                this.addHint(`Consider using an integer variable or converting the value to int`, 
-                    token.line, 
-                    token.column);
-                return null;
-            }
-            this.debug(`Found integer variable: ${token.value}`);
-            leftExpr = {
-                type: 'IntExpr',
-                value: token.value!,
-                children: []
-            };
-            this.advance();
+        this.currentScope.markUsed(name);
+
+        if (this.functionStack.indexOf(symbol) !== -1) {
+            this.addError('E316', `Function '${name}' cannot call itself`, node,
+                [`Functions keep their parameters and variables in fixed memory, so recursion is not supported; use a while loop`]);
         }
-        else {
-            this.addError("Expected integer expression", token.line, token.column);
-            this.addHint("Arithmetic expressions can only contain integers, variables, and operators", 
-                token.line, 
-                token.column);
-            return null;
+        if (argTypes.length !== symbol.params.length) {
+            this.addError('E312', `Function '${name}' expects ${symbol.params.length} argument${symbol.params.length === 1 ? '' : 's'}, got ${argTypes.length}`, node);
+        } else {
+            argTypes.forEach((argType, i) => {
+                if (argType !== 'unknown' && argType !== symbol.params[i]) {
+                    this.addError('E313', `Argument ${i + 1} of '${name}' must be ${symbol.params[i]}, got ${argType}`, node.children[i]);
+                }
+            });
         }
 
-        // Check for arithmetic operator
-        if (this.getCurrentToken().type === 'INTOP') {
-            const op = this.getCurrentToken().value;
-            this.debug(`Found arithmetic operator: ${op}`);
-            this.advance();
-
-            // Parse right operand
-            const rightExpr = this.analyzeIntExpr();
-            if (!rightExpr) {
-                this.debug("Failed to parse right side of arithmetic expression");
-                return null;
-            }
-
-            // Check if right expression is an integer
-            const rightType = this.getExpressionType(rightExpr);
-            if (rightType !== 'int') {
-                this.addError(`Invalid type in arithmetic expression: expected int, got ${rightType}`, 
-                    token.line, 
-                    token.column);
-                this.addHint(`Consider using integer values or variables in arithmetic expressions`, 
-                    token.line, 
-                    token.column);
-                return null;
-            }
-
-            // Add optimization hint for common arithmetic patterns
-            if (op === '+' && rightExpr.type === 'IntExpr' && rightExpr.value === '0') {
-                this.addHint("Adding zero has no effect, consider simplifying the expression", 
-                    token.line, 
-                    token.column);
-            }
-            if (op === '*' && (rightExpr.type === 'IntExpr' && rightExpr.value === '1')) {
-                this.addHint("Multiplying by one has no effect, consider simplifying the expression", 
-                    token.line, 
-                    token.column);
-            }
-
-            return {
-                type: 'IntExpr',
-                value: op,
-                children: [leftExpr, rightExpr]
-            };
+        if (asValue && symbol.type === 'void') {
+            this.addError('E317', `Function '${name}' returns no value`, node,
+                [`Declare a return type, e.g. 'func ${name}(...): int', or call it as a statement`]);
+            return 'unknown';
         }
-
-        // If no operator, return the left expression
-        return leftExpr;
+        return symbol.type;
     }
 
-    private analyzeStringExpr(): ASTNode | null {
-        let stringValue = "";
-        const startLine = this.getCurrentToken().line;
-        const startColumn = this.getCurrentToken().column;
-        
-        this.debug(`Starting string expression analysis at ${startLine}:${startColumn}`);
-        this.advance(); // Skip opening quote
-
-        // Collect all characters into a single string
-        while (this.getCurrentToken().type !== 'QUOTE' && 
-               this.getCurrentToken().type !== 'EOF') {
-            if (this.getCurrentToken().type === 'CHAR' || 
-                this.getCurrentToken().type === 'SPACE') {
-                stringValue += this.getCurrentToken().value;
-                this.debug(`Added character to string: '${this.getCurrentToken().value}'`);
-                this.advance();
-            } else {
-                this.addError("Invalid character in string", 
-                    this.getCurrentToken().line, 
-                    this.getCurrentToken().column);
-                return null;
-            }
+    private analyzeIf(node: ASTNode): void {
+        this.debug(`Analyzing if statement at line ${node.line}`);
+        this.analyzeCondition(node.children[0], 'if');
+        this.analyzeBlock(node.children[1]);
+        // An else block gets its own scope like the then block; an else if is analysed as a nested if
+        if (node.children.length > 2) {
+            this.analyzeStatement(node.children[2]);
         }
+    }
+
+    private analyzeWhile(node: ASTNode): void {
+        this.debug(`Analyzing while statement at line ${node.line}`);
+        const conditionNode = node.children[0];
+        this.analyzeCondition(conditionNode, 'while');
 
-        if (this.getCurrentToken().type !== 'QUOTE') {
-            this.addError("Unterminated string", 
-                this.getCurrentToken().line, 
-                this.getCurrentToken().column);
-            return null;
+        // Check for potential infinite loop
+        if (conditionNode.value === 'true') {
+            this.addHint('H301', "This while loop will run indefinitely. Consider adding a condition that can become false", node);
         }
 
-        this.debug(`Completed string expression: "${stringValue}"`);
-        this.advance(); // Skip closing quote
-        
-        // Return a single string expression with the complete string value
-        return {
-            type: 'StringExpr',
-            value: stringValue,
-            line: startLine,
-            column: startColumn,
-            children: [] // No children needed since we store the full string in value
-        };
+        this.analyzeBlock(node.children[1]);
     }
 
-    private analyzeBoolExpr(): ASTNode | null {
-        const token = this.getCurrentToken();
-        this.debug(`Analyzing boolean expression starting with: ${token.type} [${token.value}]`);
-
-        // Case 1: Direct boolean literals
-        if (token.type === 'BOOLVAL') {
-            this.debug(`Found boolean literal: ${token.value}`);
-            const value = token.value;
-            this.advance();
-            
-            // Check if this is a comparison with another boolean
-            if (this.getCurrentToken().type === 'BOOLOP') {
-                const op = this.getCurrentToken().value;
-                this.debug(`Found boolean operator: ${op}`);
-                this.advance();
-                
-                // Right side should be another boolean
-                if (this.getCurrentToken().type !== 'BOOLVAL') {
-                    this.addError("Expected boolean value after operator", 
-                        this.getCurrentToken().line, 
-                        this.getCurrentToken().column);
-                    return null;
-                }
-                
-                const rightValue = this.getCurrentToken().value;
-                this.advance();
-                
-                return {
-                    type: 'boolexpr',
-                    value: op,
-                    children: [
-                        { type: 'boolval', value: value!, children: [] },
-                        { type: 'boolval', value: rightValue!, children: [] }
-                    ]
-                };
-            }
-            
-            // If no operator, just return the boolean value
-            return {
-                type: 'boolexpr',
-                value: value!,
-                children: []
-            };
+    private analyzeCondition(node: ASTNode, statement: string): void {
+        const conditionType = this.analyzeExpression(node);
+        if (conditionType !== 'boolean' && conditionType !== 'unknown') {
+            this.addError('E306', `Condition of ${statement} must be boolean, got ${conditionType}`, node);
         }
-        
-        // Case 2: String comparison - special handling for quotes
-        if (token.type === 'QUOTE') {
-            // Parse left string
-            const leftString = this.analyzeStringExpr();
-            if (!leftString) {
-                return null;
-            }
-            
-            // Expect a comparison operator
-            if (this.getCurrentToken().type !== 'BOOLOP') {
-                this.addError("Expected boolean operator (== or !=) after string", 
-                    this.getCurrentToken().line, 
-                    this.getCurrentToken().column);
-                return null;
-            }
-            
-            const op = this.getCurrentToken().value;
-            this.advance();
-            
-            // Expect another string on the right
-            if (this.getCurrentToken().type !== 'QUOTE') {
-                this.addError("Expected string after comparison operator", 
-                    this.getCurrentToken().line, 
-                    this.getCurrentToken().column);
-                return null;
-            }
-            
-            const rightString = this.analyzeStringExpr();
-            if (!rightString) {
-                return null;
-            }
-            
-            return {
-                type: 'boolexpr',
-                value: op,
-                children: [leftString, rightString]
-            };
-        }
-        
-        // Case 3: Numeric or identifier comparison
-        const leftExpr = this.analyzeExpression();
-        if (!leftExpr) {
-            this.debug("Failed to parse left side of boolean expression");
-            return null;
-        }
-        this.debug(`Parsed left side of comparison: ${leftExpr.type} ${leftExpr.value || ''}`);
-        
-        // After left expression, we need a comparison operator
-        if (this.getCurrentToken().type !== 'BOOLOP') {
-            this.addError("Expected boolean operator (== or !=)", 
-                this.getCurrentToken().line, 
-                this.getCurrentToken().column);
-            return null;
-        }
-        
-        const op = this.getCurrentToken().value;
-        this.debug(`Found boolean operator: ${op}`);
-        this.advance();
-        
-        // Parse right expression
-        const rightExpr = this.analyzeExpression();
-        if (!rightExpr) {
-            this.debug("Failed to parse right side of boolean expression");
-            return null;
-        }
-        this.debug(`Parsed right side of comparison: ${rightExpr.type} ${rightExpr.value || ''}`);
-        
-        // Type checking for boolean expressions
-        const leftType = this.getExpressionType(leftExpr);
-        const rightType = this.getExpressionType(rightExpr);
-        
-        // Check if types are compatible for comparison
-        if (!this.areTypesComparable(leftType, rightType)) {
-            this.addError(`Invalid type comparison: cannot compare ${leftType} with ${rightType}`, 
-                token.line, 
-                token.column);
-            this.addHint(`Make sure you're comparing compatible types. Both sides should be the same type.`, 
-                token.line, 
-                token.column);
-        }
-        
-        return {
-            type: 'boolexpr',
-            value: op,
-            children: [leftExpr, rightExpr]
-        };
     }
 
-    private getExpressionType(expr: ASTNode): string {
-        switch (expr.type) {
+    // Check an expression and return its type ('unknown' once an error was reported)
+    private analyzeExpression(node: ASTNode): string {
+        this.debug(`Analyzing expression: ${node.type} [${node.value || ''}]`);
+
+        switch (node.type) {
             case 'IntExpr':
-            case 'Digit':
-                return 'int';
+                return this.analyzeIntExpr(node);
             case 'StringExpr':
                 return 'string';
             case 'boolexpr':
-            case 'BoolExpr':
-            case 'boolval':
-            case 'BoolVal':
-                return 'boolean';
+                return this.analyzeBoolExpr(node);
             case 'Id':
-                const symbol = this.currentScope.lookupSymbol(expr.value!);
-                return symbol ? symbol.type : 'unknown';
+                return this.analyzeId(node);
+            case 'Call':
+                return this.analyzeCall(node, true);
             default:
+                this.addError('E307', `Unexpected expression: ${node.type}`, node);
                 return 'unknown';
         }
     }
 
-    private areTypesComparable(type1: string, type2: string): boolean {
-        // Normalize types
-        type1 = type1.toLowerCase();
-        type2 = type2.toLowerCase();
-
-        // Same types are always comparable
-        if (type1 === type2) {
-            return true;
-        }
-
-        // Handle int comparisons (allowing digits to be compared with int variables)
-        if ((type1 === 'int' || type1 === 'digit' || type1 === 'intexpr') && 
-            (type2 === 'int' || type2 === 'digit' || type2 === 'intexpr')) {
-            return true;
-        }
-        
-        // Handle string comparisons
-        if ((type1 === 'string' || type1 === 'stringexpr') && 
-            (type2 === 'string' || type2 === 'stringexpr')) {
-            return true;
-        }
-        
-        // Handle boolean comparisons
-        if ((type1 === 'boolean' || type1 === 'boolexpr' || type1 === 'boolval') && 
-            (type2 === 'boolean' || type2 === 'boolexpr' || type2 === 'boolval')) {
-            return true;
-        }
-
-        // All other combinations are invalid
-        return false;
-    }
-
-    private analyzePrint(): ASTNode | null {
-        const printToken = this.getCurrentToken();
-        this.advance();
-
-        if (this.getCurrentToken().type !== 'LPAREN') {
-            this.addError("Expected '(' after print", 
-                this.getCurrentToken().line, 
-                this.getCurrentToken().column);
-            this.addHint("Print statements require parentheses around the expression: print(expression)", 
-                this.getCurrentToken().line, 
-                this.getCurrentToken().column);
-            return null;
+    private analyzeId(node: ASTNode): string {
+        const symbol = this.currentScope.lookupSymbol(node.value!);
+        if (!symbol) {
+            this.addError('E301', `Variable '${node.value}' not declared`, node,
+                [`Consider declaring the variable before using it: 'int ${node.value};'`]);
+            return 'unknown';
         }
-        this.advance();
-
-        const exprNode = this.analyzeExpression();
-        if (!exprNode) {
-            return null;
+        if (symbol.kind === 'function') {
+            this.addError('E311', `'${node.value}' is a function; call it as ${node.value}(...)`, node);
+            this.currentScope.markUsed(node.value!);
+            return 'unknown';
         }
 
-        if (this.getCurrentToken().type !== 'RPAREN') {
-            this.addError("Expected ')' after print expression", 
-                this.getCurrentToken().line, 
-                this.getCurrentToken().column);
-            this.addHint("Make sure to close the print statement with a ')'", 
-                this.getCurrentToken().line, 
-                this.getCurrentToken().column);
-            return null;
+        if (!symbol.isInitialized) {
+            this.addWarning('W301', `Variable '${node.value}' is used before being initialized`, node,
+                [`Initialize '${node.value}' before using it in an expression`]);
         }
-        this.advance();
 
-        return {
-            type: 'Print',
-            children: [exprNode]
-        };
+        // Mark the variable as used
+        this.currentScope.markUsed(node.value!);
+        return symbol.type;
     }
 
-    private analyzeIf(): ASTNode | null {
-        this.debug(`Analyzing if statement at line ${this.getCurrentToken().line}`);
-        this.advance(); // Skip 'if'
-
-        // Expect opening parenthesis
-        if (this.getCurrentToken().type !== 'LPAREN') {
-            this.addError("Expected '(' after if", 
-                this.getCurrentToken().line, 
-                this.getCurrentToken().column);
-            return null;
+    private analyzeIntExpr(node: ASTNode): string {
+        // A digit on its own
+        if (node.children.length === 0) {
+            return 'int';
         }
-        this.advance(); // Skip the opening parenthesis
 
-        // Parse the boolean expression
-        const conditionNode = this.analyzeBoolExpr();
-        if (!conditionNode) {
-            this.debug("Failed to parse if condition");
-            return null;
+        // Expr intop Expr - both operands of +, - and * must be ints
+        let resultType = 'int';
+        for (const operand of node.children) {
+            const operandType = this.analyzeExpression(operand);
+            if (operandType !== 'int' && operandType !== 'unknown') {
+                this.addError('E304', `Invalid type in arithmetic expression: expected int, got ${operandType}`, operand,
+                    [`Consider using integer values or variables in arithmetic expressions`]);
+                resultType = 'unknown';
+            } else if (operandType === 'unknown') {
+                resultType = 'unknown';
+            }
         }
-        this.debug(`Successfully parsed if condition: ${conditionNode.type}`);
-
-        // Expect closing parenthesis
-        if (this.getCurrentToken().type !== 'RPAREN') {
-            this.addError("Expected ')' at end of if condition", 
-                this.getCurrentToken().line, 
-                this.getCurrentToken().column);
-            return null;
+        if (resultType === 'unknown') {
+            return resultType;
         }
-        this.advance(); // Skip the closing parenthesis
 
-        // For if blocks, we want to create a new scope but inherit the parent's symbols
-        this.enterScope();
-        
-        const blockNode = this.analyzeBlock(true); // true indicates this is an if block
-        
-        this.exitScope();
-        
-        if (!blockNode) {
-            this.debug("Failed to parse if block");
-            return null;
+        // Add optimization hints for common arithmetic patterns
+        const [leftNode, rightNode] = node.children;
+        const isLiteral = (operand: ASTNode, value: string) => operand.type === 'IntExpr' && operand.value === value;
+        if ((node.value === '+' || node.value === '-') && isLiteral(rightNode, '0')) {
+            this.addHint('H302', `${node.value === '+' ? 'Adding' : 'Subtracting'} zero has no effect, consider simplifying the expression`, node);
+        } else if (node.value === '*' && (isLiteral(leftNode, '1') || isLiteral(rightNode, '1'))) {
+            this.addHint('H303', "Multiplying by one has no effect, consider simplifying the expression", node);
         }
-        this.debug("Successfully parsed if block");
 
-        return {
-            type: 'IfStatement',
-            children: [conditionNode, blockNode]
-        };
+        return resultType;
     }
 
-    private analyzeWhile(): ASTNode | null {
-        const whileToken = this.getCurrentToken();
-        this.advance();
-
-        if (this.getCurrentToken().type !== 'LPAREN') {
-            this.addError("Expected '(' after while", 
-                this.getCurrentToken().line, 
-                this.getCurrentToken().column);
-            this.addHint("While loops require parentheses around the condition: while(condition)", 
-                this.getCurrentToken().line, 
-                this.getCurrentToken().column);
-            return null;
-        }
-        this.advance(); // Skip the opening parenthesis
-
-        // Use analyzeBoolExpr for the condition
-        const conditionNode = this.analyzeBoolExpr();
-        if (!conditionNode) {
-            this.debug("Failed to parse while condition");
-            return null;
-        }
-
-        // Check for potential infinite loop
-        if (conditionNode.value === 'true') {
-            this.addHint("This while loop will run indefinitely. Consider adding a condition that can become false", 
-                whileToken.line, 
-                whileToken.column);
-        }
-
-        if (this.getCurrentToken().type !== 'RPAREN') {
-            this.addError("Expected ')' after while condition", 
-                this.getCurrentToken().line, 
-                this.getCurrentToken().column);
-            this.addHint("Make sure to close the while condition with a ')'", 
-                this.getCurrentToken().line, 
-                this.getCurrentToken().column);
-            return null;
+    private analyzeBoolExpr(node: ASTNode): string {
+        // Boolean literal
+        if (node.children.length === 0) {
+            return 'boolean';
         }
-        this.advance(); // Skip the closing parenthesis
 
-        // Create a new scope for the while body
-        this.enterScope();
-        
-        const bodyNode = this.analyzeBlock(true); // true means don't create another scope
-        
-        this.exitScope();
-        
-        if (!bodyNode) {
-            return null;
+        // not, and and or take booleans
+        if (node.value === 'not' || node.value === 'and' || node.value === 'or') {
+            for (const operand of node.children) {
+                const operandType = this.analyzeExpression(operand);
+                if (operandType !== 'boolean' && operandType !== 'unknown') {
+                    this.addError('E309', `Operator '${node.value}' needs boolean operands, got ${operandType}`, operand,
+                        [`Compare the value to get a boolean, e.g. (${operandType === 'int' ? 'x != 0' : 'x == y'})`]);
+                }
+            }
+            return 'boolean';
         }
 
-        return {
-            type: 'While',
-            children: [conditionNode, bodyNode]
-        };
-    }
-
-    private expect(expectedType: string, errorMessage: string): boolean {
-        const token = this.getCurrentToken();
-        if (token.type === expectedType) {
-            this.advance();
-            return true;
+        // ( Expr boolop Expr ) - both sides must have the same type
+        const leftType = this.analyzeExpression(node.children[0]);
+        const rightType = this.analyzeExpression(node.children[1]);
+        if (leftType !== 'unknown' && rightType !== 'unknown' && leftType !== rightType) {
+            this.addError('E305', `Invalid type comparison: cannot compare ${leftType} with ${rightType}`, node,
+                [`Make sure you're comparing compatible types. Both sides should be the same type.`]);
+        } else if (leftType !== 'unknown' && leftType !== 'int' && node.value !== '==' && node.value !== '!=') {
+            // Only ints are ordered
+            this.addError('E308', `Operator '${node.value}' needs int operands, got ${leftType}`, node,
+                [`Use == or != to compare ${leftType} values`]);
         }
-        this.addError(errorMessage, token.line, token.column);
-        return false;
+        return 'boolean';
     }
 
     // Helper to visualize the AST
@@ -1171,16 +670,8 @@ class SemanticAnalyser {
         }
     }
 
-    getErrors(): string[] {
-        return this.errors;
-    }
-
-    getWarnings(): string[] {
-        return this.warnings;
-    }
-
-    getHints(): string[] {
-        return this.hints.map(hint => `SEMANTIC --> Hint: ${hint.message} at line ${hint.line}:${hint.column}`);
+    getDiagnostics(): Diagnostic[] {
+        return this.diagnostics;
     }
 
     getAST(): ASTNode | null {
@@ -1194,7 +685,7 @@ class SemanticAnalyser {
         // Map to the expected format
         return allSymbols.map(({ symbol, scopeLevel }) => ({
             name: symbol.name,
-                        type: symbol.type,
+                        type: SemanticAnalyser.displayType(symbol),
                         initialized: symbol.isInitialized,
             isUsed: symbol.isUsed,
                         line: symbol.line,
@@ -1209,6 +700,11 @@ class SemanticAnalyser {
         });
     }
 
+    // A function shows its signature, e.g. int(int,boolean)
+    private static displayType(symbol: SymbolTableEntry): string {
+        return symbol.kind === 'function' ? `${symbol.type}(${symbol.params.join(',')})` : symbol.type;
+    }
+
     public static visualizeSymbolTable(symbols: { name: string; type: string; initialized: boolean; isUsed: boolean; line: number; column: number; scopeLevel: number }[]): string {
         if (symbols.length === 0) {
             return "Symbol Table is empty";
@@ -1269,13 +765,14 @@ class SemanticAnalyser {
         const unusedSymbols = this.symbolTable.getUnusedSymbols();
         
         for (const { symbol, scopeLevel } of unusedSymbols) {
-            this.addWarning(`Variable '${symbol.name}' is declared but never used`, 
-                        symbol.line, 
-                        symbol.column);
-                    this.addHint(`Consider removing the unused variable or using it in your code`, 
-                        symbol.line, 
-                        symbol.column);
-                }
+            if (symbol.kind === 'function') {
+                this.addWarning('W303', `Function '${symbol.name}' is declared but never called`, symbol,
+                    [`Consider removing the unused function or calling it in your code`]);
+            } else {
+                this.addWarning('W302', `${symbol.kind === 'parameter' ? 'Parameter' : 'Variable'} '${symbol.name}' is declared but never used`, symbol,
+                    [`Consider removing the unused ${symbol.kind} or using it in your code`]);
+            }
+        }
     }
 
     // Enhanced method to visualize the scope tree with better formatting
@@ -1302,7 +799,7 @@ class SemanticAnalyser {
                     const initialized = symbol.isInitialized ? "Yes" : "No";
                     const used = symbol.isUsed ? "Yes" : "No";
                     
-                    result += `${indent}   ├─ ${name.padEnd(15)} : ${symbol.type.padEnd(8)} [Init: ${initialized} | Used: ${used}] @${symbol.line}:${symbol.column}\n`;
+                    result += `${indent}   ├─ ${name.padEnd(15)} : ${SemanticAnalyser.displayType(symbol).padEnd(8)} [Init: ${initialized} | Used: ${used}] @${symbol.line}:${symbol.column}\n`;
                 });
             } else {
                 result += `${indent}   (No symbols in this scope)\n`;
@@ -1341,8 +838,8 @@ class SemanticAnalyser {
 }
 
 // Make classes available globally
-(window as any).SemanticAnalyser = SemanticAnalyser;
-(window as any).SymbolTable = SymbolTable;
+(globalThis as any).SemanticAnalyser = SemanticAnalyser;
+(globalThis as any).SymbolTable = SymbolTable;
 
 
 
@@ -0,0 +1,221 @@
+#!/usr/bin/env node
+// alanc - command-line driver for the Alan++ compiler
+//
+//   node dist/alanc.js prog.alan [--emit=tokens|cst|ast|symbols|ir|asm|hex|bin|run] [-o out]
+//                      [--language=classic|extended]
+//                      [-O0] [--no-fold] [--no-propagate] [--no-dead-code] [--no-dead-stores] [--opt-report]
+//
+// Exit codes: 0 when every program compiled, 1 when any program reported
+// errors, 2 for usage or I/O problems.
+
+require('./NodeHost.js');
+loadCompilerScripts();
+
+const ALANC_EMIT_KINDS = ['tokens', 'cst', 'ast', 'symbols', 'ir', 'asm', 'hex', 'bin', 'run'];
+
+const ALANC_LANGUAGES: LanguageLevel[] = ['classic', 'extended'];
+
+// Flags that turn off one optimizer pass each
+const ALANC_PASS_FLAGS: { [flag: string]: keyof OptimizerOptions } = {
+    '--no-fold': 'fold',
+    '--no-propagate': 'propagate',
+    '--no-dead-code': 'deadCode',
+    '--no-dead-stores': 'deadStores'
+};
+
+const ALANC_USAGE = `Usage: alanc <file.alan> [--emit=${ALANC_EMIT_KINDS.join('|')}] [-o <out>] [optimizer options]
+
+Options:
+  --emit=<kind>   Output to produce for each program (default: hex)
+  -o <out>        Write the output to <out> instead of stdout
+  --language=<l>  classic (default) or extended: integer literals up to 255 and
+                  identifiers of several letters and digits
+  -h, --help      Show this message
+
+Optimizer options (every pass runs by default):
+  -O0               Turn off every pass
+  --no-fold         Keep constant additions and comparisons
+  --no-propagate    Keep reads of variables with a known value
+  --no-dead-code    Keep if (false) blocks and while (false) loops
+  --no-dead-stores  Keep variables that are never read
+  --opt-report      Print the bytes saved and rewrites made for each program to stderr
+`;
+
+interface AlancOptions {
+    input: string;
+    emit: string;
+    output: string | null;
+    language: LanguageLevel;
+    optimize: OptimizerOptions;
+    optReport: boolean;
+}
+
+// Parse argv into options, returning an error message for bad usage
+function parseAlancArgs(args: string[]): AlancOptions | string {
+    const options: AlancOptions = { input: '', emit: 'hex', output: null, language: 'classic', optimize: {}, optReport: false };
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg.startsWith('--emit=')) {
+            options.emit = arg.substring('--emit='.length);
+        } else if (arg === '--emit') {
+            options.emit = args[++i] || '';
+        } else if (arg === '-o') {
+            if (i + 1 >= args.length) {
+                return "Option '-o' requires a file name";
+            }
+            options.output = args[++i];
+        } else if (arg.startsWith('--language=')) {
+            const language = arg.substring('--language='.length) as LanguageLevel;
+            if (ALANC_LANGUAGES.indexOf(language) === -1) {
+                return `Unknown language '${language}' (expected one of ${ALANC_LANGUAGES.join(', ')})`;
+            }
+            options.language = language;
+        } else if (arg === '-O0') {
+            options.optimize = { fold: false, propagate: false, deadCode: false, deadStores: false };
+        } else if (ALANC_PASS_FLAGS.hasOwnProperty(arg)) {
+            options.optimize[ALANC_PASS_FLAGS[arg]] = false;
+        } else if (arg === '--opt-report') {
+            options.optReport = true;
+        } else if (arg.startsWith('-')) {
+            return `Unknown option '${arg}'`;
+        } else if (options.input) {
+            return `Unexpected argument '${arg}'`;
+        } else {
+            options.input = arg;
+        }
+    }
+
+    if (!options.input) {
+        return 'No input file given';
+    }
+    if (ALANC_EMIT_KINDS.indexOf(options.emit) === -1) {
+        return `Unknown emit kind '${options.emit}' (expected one of ${ALANC_EMIT_KINDS.join(', ')})`;
+    }
+    return options;
+}
+
+// Render the requested phase output for one program, or null if that phase did not complete
+function formatAlancOutput(result: CompileResult, emit: string): string | null {
+    switch (emit) {
+        case 'tokens':
+            return result.tokens
+                .filter(token => token.type !== 'ERROR')
+                .map(token => `${token.type} [ ${token.value === null ? '' : token.value} ] ${token.line}:${token.column}\n`)
+                .join('');
+        case 'cst':
+            return result.cst ? Parser.visualizeTreeText(result.cst) : null;
+        case 'ast':
+            return result.ast ? SemanticAnalyser.visualizeTree(result.ast) : null;
+        case 'symbols':
+            return result.ast ? SemanticAnalyser.visualizeSymbolTable(result.symbols) + '\n' : null;
+        case 'ir':
+            return result.ir ? IRBuilder.format(result.ir) : null;
+        case 'asm':
+            return result.success ? result.assembly.join('\n') + '\n' : null;
+        case 'hex':
+            return result.success ? formatHexImage(result.binary) : null;
+        case 'run': {
+            // What the program prints, straight from the AST
+            if (!result.ast) {
+                return null;
+            }
+            const run = new Interpreter(result.ast).run();
+            return run.stdout + '\n' + (run.error ? `; ${run.error}\n` : '');
+        }
+        default:
+            return null;
+    }
+}
+
+// Print every diagnostic a program produced to stderr
+function reportAlancDiagnostics(result: CompileResult, programNum: number): boolean {
+    const diagnostics = collectDiagnostics(result);
+    const errors = diagnosticsWithSeverity(diagnostics, 'error');
+    const messages: string[] = [];
+    for (const diagnostic of diagnostics) {
+        messages.push(...formatDiagnosticLines(diagnostic, result.source));
+    }
+    if (result.fatalError) {
+        messages.push(`Compiler Error in Program ${programNum}: ${result.fatalError}`);
+    }
+
+    for (const message of messages) {
+        process.stderr.write(`Program ${programNum}: ${message}\n`);
+    }
+    return errors.length === 0 && !result.fatalError && result.success;
+}
+
+function runAlanc(args: string[]): number {
+    if (args.indexOf('-h') !== -1 || args.indexOf('--help') !== -1) {
+        process.stdout.write(ALANC_USAGE);
+        return 0;
+    }
+
+    const options = parseAlancArgs(args);
+    if (typeof options === 'string') {
+        process.stderr.write(`alanc: ${options}\n\n${ALANC_USAGE}`);
+        return 2;
+    }
+
+    const fs = require('fs');
+    let sourceCode: string;
+    try {
+        sourceCode = fs.readFileSync(options.input, 'utf8');
+    } catch (error) {
+        process.stderr.write(`alanc: cannot read '${options.input}': ${(error as Error).message}\n`);
+        return 2;
+    }
+
+    const programs = splitPrograms(sourceCode, options.language);
+    const textOutput: string[] = [];
+    const binaryOutput: number[] = [];
+    let failed = false;
+
+    for (let i = 0; i < programs.length; i++) {
+        const programNum = i + 1;
+        const result = compileProgram(programs[i], { optimize: options.optimize });
+        if (!reportAlancDiagnostics(result, programNum)) {
+            failed = true;
+        }
+        if (options.optReport && result.optimization) {
+            process.stderr.write(`Program ${programNum}: optimizer ${Optimizer.formatReport(result.optimization)}\n`);
+        }
+
+        if (options.emit === 'bin') {
+            if (result.success) {
+                binaryOutput.push(...result.binary);
+            }
+            continue;
+        }
+
+        const output = formatAlancOutput(result, options.emit);
+        if (output === null) {
+            process.stderr.write(`Program ${programNum}: no ${options.emit} output, compilation stopped before that phase\n`);
+            continue;
+        }
+        textOutput.push(programs.length > 1 ? `; Program ${programNum}\n${output}` : output);
+    }
+
+    try {
+        if (options.emit === 'bin') {
+            const bytes = Uint8Array.from(binaryOutput);
+            if (options.output) {
+                fs.writeFileSync(options.output, bytes);
+            } else {
+                process.stdout.write(bytes);
+            }
+        } else if (options.output) {
+            fs.writeFileSync(options.output, textOutput.join('\n'));
+        } else {
+            process.stdout.write(textOutput.join('\n'));
+        }
+    } catch (error) {
+        process.stderr.write(`alanc: cannot write '${options.output}': ${(error as Error).message}\n`);
+        return 2;
+    }
+
+    return failed ? 1 : 0;
+}
+
+process.exitCode = runAlanc(process.argv.slice(2));
@@ -0,0 +1,97 @@
+#!/usr/bin/env node
+// difftest - differential test of the compiler against the AST interpreter
+//
+//   node dist/difftest.js [file.txt ...]
+//
+// Every program that compiles is run twice: once by the Interpreter straight from
+// the AST, once as machine code on the Emulator. The printed output must match.
+// Exit codes: 0 when every program agreed, 1 when one diverged, 2 for I/O problems.
+
+require('./NodeHost.js');
+loadCompilerScripts();
+
+// Test files checked when no files are given, relative to the repository root
+const DIFFTEST_DEFAULT_FILES = ['Lexer_Test_Cases.txt', 'Parser_Test_Cases.txt', 'SemanticAnalysisTestcases.txt', 'Regression_Test_Cases.txt'];
+
+// Cycle budget for the machine run, far above the Emulator's default: loops on the
+// target machine can take hundreds of cycles per statement the interpreter counts
+const DIFFTEST_MAX_CYCLES = 20000000;
+
+// How one program fared in both runs
+interface DiffOutcome {
+    file: string;
+    programNum: number;
+    result: CompileResult;
+    expected: InterpreterResult;
+    actual: EmulatorResult;
+}
+
+// Show everything needed to debug a divergence: the output of both runs, the AST and the assembly
+function formatDivergence(outcome: DiffOutcome): string {
+    const { result, expected, actual } = outcome;
+    const lines = [
+        `${outcome.file}: program ${outcome.programNum} diverged`,
+        `  interpreter: ${JSON.stringify(expected.stdout)}${expected.error ? ` (${expected.error})` : ''}`,
+        `  machine:     ${JSON.stringify(actual.stdout)}${actual.error ? ` (${actual.error})` : ''}`,
+        '',
+        SemanticAnalyser.visualizeTree(result.ast!),
+        'Assembly:',
+        ...result.assembly.map(instruction => `  ${instruction}`),
+        ''
+    ];
+    return lines.join('\n');
+}
+
+function runDifftest(args: string[]): number {
+    const fs = require('fs');
+    const path = require('path');
+    const files = args.length > 0 ? args : DIFFTEST_DEFAULT_FILES.map(file => path.join(__dirname, '..', file));
+
+    let agreed = 0;
+    let skipped = 0;
+    let limited = 0;
+    for (const file of files) {
+        let sourceCode: string;
+        try {
+            sourceCode = fs.readFileSync(file, 'utf8');
+        } catch (error) {
+            process.stderr.write(`difftest: cannot read '${file}': ${(error as Error).message}\n`);
+            return 2;
+        }
+
+        const programs = splitPrograms(sourceCode);
+        for (let i = 0; i < programs.length; i++) {
+            const result = compileProgram(programs[i]);
+            // Programs with errors are the other test suites' business
+            if (!result.success || !result.ast) {
+                skipped++;
+                continue;
+            }
+
+            const expected = new Interpreter(result.ast).run();
+            const actual = new Emulator(result.binary, DIFFTEST_MAX_CYCLES).run();
+            // A program that never ends cannot be compared by its output
+            if (expected.error && actual.error) {
+                skipped++;
+                continue;
+            }
+            // Running out of steps or cycles on one side only says the program is long, not wrong
+            if (expected.error || (!actual.halted && actual.cycles >= DIFFTEST_MAX_CYCLES)) {
+                limited++;
+                continue;
+            }
+            if (expected.stdout !== actual.stdout || actual.error) {
+                const outcome = { file: path.basename(file), programNum: i + 1, result, expected, actual };
+                process.stdout.write(formatDivergence(outcome));
+                process.stdout.write(`\n${agreed} program(s) agreed before the divergence, ${skipped} skipped, ${limited} hit a step or cycle limit\n`);
+                return 1;
+            }
+            agreed++;
+        }
+    }
+
+    process.stdout.write(`${agreed} program(s) agreed, ${skipped} skipped (did not compile or never halt), ${limited} hit a step or cycle limit\n`);
+    return 0;
+}
+
+process.exitCode = runDifftest(process.argv.slice(2));
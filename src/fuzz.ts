@@ -0,0 +1,636 @@
+#!/usr/bin/env node
+// fuzz - random program generator that exercises the whole pipeline
+//
+//   node dist/fuzz.js [--count N] [--seed S] [--semantic]
+//
+// Programs come from the Alan++ grammar, so the lexer and parser must accept every one;
+// with --semantic they are also well typed, so semantic analysis must accept them too.
+// A program that crashes a phase, is rejected when it should not be, overflows the
+// 256-byte image or prints something other than the interpreter is shrunk to a minimal
+// reproduction and reported.
+// Exit codes: 0 when no program failed, 1 on a failure, 2 for usage problems.
+
+require('./NodeHost.js');
+loadCompilerScripts();
+
+const FUZZ_USAGE = `Usage: fuzz [--count N] [--seed S] [--semantic]
+
+Options:
+  --count N      Number of programs to generate (default: 200)
+  --seed S       Seed for the generator, to reproduce a run (default: random)
+  --semantic     Only generate well-typed programs
+  -h, --help     Show this message
+`;
+
+type FuzzType = 'int' | 'string' | 'boolean';
+
+// Generated expressions keep their type so the shrinker can swap in a simpler one
+type FuzzExpr =
+    | { kind: 'literal'; type: FuzzType; text: string }
+    | { kind: 'id'; type: FuzzType; name: string }
+    | { kind: 'arith'; type: 'int'; op: string; digit: string; right: FuzzExpr }
+    | { kind: 'compare'; type: 'boolean'; op: string; left: FuzzExpr; right: FuzzExpr } // Also and and or
+    | { kind: 'not'; type: 'boolean'; operand: FuzzExpr }
+    | { kind: 'call'; type: FuzzType; name: string; args: FuzzExpr[] };
+
+type FuzzStatement =
+    | { kind: 'decl'; type: FuzzType; name: string }
+    | { kind: 'assign'; name: string; expr: FuzzExpr }
+    | { kind: 'print'; expr: FuzzExpr }
+    | { kind: 'if'; cond: FuzzExpr; body: FuzzStatement[]; orElse: FuzzStatement | null } // orElse is a block or an if
+    | { kind: 'while'; cond: FuzzExpr; body: FuzzStatement[] }
+    | { kind: 'block'; body: FuzzStatement[] }
+    | { kind: 'func'; name: string; params: { type: FuzzType; name: string }[]; returnType: FuzzType | null; body: FuzzStatement[] }
+    | { kind: 'return'; expr: FuzzExpr }
+    | { kind: 'call'; name: string; args: FuzzExpr[] };
+
+// Parameter and return types of a generated function
+interface FuzzSignature {
+    params: FuzzType[];
+    returnType: FuzzType | null;
+}
+
+// What went wrong with a generated program; shrinking keeps the kind the same
+interface FuzzFailure {
+    kind: 'exception' | DiagnosticPhase | 'overflow' | 'output'; // A phase that wrongly reported errors
+    message: string;
+}
+
+const FUZZ_TYPES: FuzzType[] = ['int', 'string', 'boolean'];
+const FUZZ_NAMES = 'abcdefghijklmnopqrstuvwxyz';
+
+// Small seeded PRNG (mulberry32) so a failing run can be repeated from its seed
+class FuzzRandom {
+    private state: number;
+
+    constructor(seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    int(limit: number): number {
+        return Math.floor(this.next() * limit);
+    }
+
+    pick<T>(items: T[]): T {
+        return items[this.int(items.length)];
+    }
+
+    chance(probability: number): boolean {
+        return this.next() < probability;
+    }
+}
+
+// Builds random programs from the grammar. In semantic mode every identifier is declared
+// in a visible scope with the type its use needs; otherwise names and types are arbitrary.
+// A function is only visible after its body, so it never calls itself, and its name is
+// never shadowed, so every call in its scope reaches it.
+class ProgramGenerator {
+    private random: FuzzRandom;
+    private semantic: boolean;
+    private scopes: Map<string, FuzzType>[] = [];
+    private functions: Map<string, FuzzSignature>[] = []; // Declared alongside scopes
+    private loopCounters: string[] = []; // Never assigned inside their loop, so it ends
+
+    constructor(random: FuzzRandom, semantic: boolean) {
+        this.random = random;
+        this.semantic = semantic;
+    }
+
+    program(): FuzzStatement[] {
+        return this.block(0);
+    }
+
+    // A function body with a return type ends in a return, which can read the body's variables
+    private block(depth: number, returnType: FuzzType | null = null): FuzzStatement[] {
+        this.scopes.push(new Map());
+        this.functions.push(new Map());
+        const statements: FuzzStatement[] = [];
+        const count = depth === 0 ? 1 + this.random.int(6) : this.random.int(4);
+        for (let i = 0; i < count; i++) {
+            statements.push(...this.statement(depth));
+        }
+        if (returnType) {
+            statements.push({ kind: 'return', expr: this.expr(returnType, 2) });
+        }
+        this.functions.pop();
+        this.scopes.pop();
+        return statements;
+    }
+
+    // Usually one statement; a terminating while also needs its counter declared first
+    private statement(depth: number): FuzzStatement[] {
+        const nested = depth < 3;
+        const roll = this.random.int(nested ? 9 : 5);
+        switch (roll) {
+            case 0:
+                return [this.declaration()];
+            case 1:
+                return this.assignment();
+            case 2:
+            case 3:
+                return [{ kind: 'print', expr: this.expr(this.random.pick(FUZZ_TYPES), 2) }];
+            case 4:
+                return [this.callStatement()];
+            case 5:
+                return [this.ifStatement(depth)];
+            case 6:
+                return this.loop(depth);
+            case 7:
+                return [this.funcDecl(depth)];
+            default:
+                return [{ kind: 'block', body: this.block(depth + 1) }];
+        }
+    }
+
+    private declaration(): FuzzStatement {
+        const type = this.random.pick(FUZZ_TYPES);
+        const scope = this.scopes[this.scopes.length - 1];
+        const functionNames = this.visibleFunctions().map(([name]) => name);
+        const free = FUZZ_NAMES.split('').filter(name => !scope.has(name) && functionNames.indexOf(name) === -1);
+        const name = this.semantic && free.length > 0 ? this.random.pick(free) : this.random.pick(FUZZ_NAMES.split(''));
+        scope.set(name, type);
+        return { kind: 'decl', type, name };
+    }
+
+    // Semantic mode declares a variable first when there is nothing to assign to
+    private assignment(): FuzzStatement[] {
+        if (!this.semantic) {
+            return [{ kind: 'assign', name: this.random.pick(FUZZ_NAMES.split('')), expr: this.expr(this.random.pick(FUZZ_TYPES), 2) }];
+        }
+        const visible = this.visible().filter(([name]) => this.loopCounters.indexOf(name) === -1);
+        if (visible.length === 0) {
+            const declaration = this.declaration() as { kind: 'decl'; type: FuzzType; name: string };
+            return [declaration, { kind: 'assign', name: declaration.name, expr: this.expr(declaration.type, 2) }];
+        }
+        const [name, type] = this.random.pick(visible);
+        return [{ kind: 'assign', name, expr: this.expr(type, 2) }];
+    }
+
+    // An if, sometimes with an else block or a chain of else ifs
+    private ifStatement(depth: number): FuzzStatement {
+        const cond = this.condition(2);
+        const body = this.block(depth + 1);
+        let orElse: FuzzStatement | null = null;
+        if (this.random.chance(0.4)) {
+            orElse = this.random.chance(0.5) ? this.ifStatement(depth) : { kind: 'block', body: this.block(depth + 1) };
+        }
+        return { kind: 'if', cond, body, orElse };
+    }
+
+    // Parameters get a scope of their own around the body
+    private funcDecl(depth: number): FuzzStatement {
+        const name = this.freshName();
+        const returnType = this.random.chance(0.6) ? this.random.pick(FUZZ_TYPES) : null;
+        const functionNames = this.visibleFunctions().map(([visible]) => visible);
+        const paramScope: Map<string, FuzzType> = new Map();
+        const params: { type: FuzzType; name: string }[] = [];
+        for (let i = this.random.int(3); i > 0; i--) {
+            const free = FUZZ_NAMES.split('').filter(param => !paramScope.has(param) && functionNames.indexOf(param) === -1);
+            const param = { type: this.random.pick(FUZZ_TYPES), name: this.random.pick(this.semantic ? free : FUZZ_NAMES.split('')) };
+            paramScope.set(param.name, param.type);
+            params.push(param);
+        }
+
+        this.scopes.push(paramScope);
+        this.functions.push(new Map());
+        const body = this.block(depth + 1, returnType);
+        this.functions.pop();
+        this.scopes.pop();
+
+        this.functions[this.functions.length - 1].set(name, { params: params.map(param => param.type), returnType });
+        return { kind: 'func', name, params, returnType, body };
+    }
+
+    // A call of any visible function, its result discarded; a print when there is none
+    private callStatement(): FuzzStatement {
+        const candidates = this.visibleFunctions();
+        if (!this.semantic) {
+            return { kind: 'call', name: this.random.pick(FUZZ_NAMES.split('')), args: this.randomArgs() };
+        }
+        if (candidates.length === 0) {
+            return { kind: 'print', expr: this.expr(this.random.pick(FUZZ_TYPES), 2) };
+        }
+        const [name, signature] = this.random.pick(candidates);
+        return { kind: 'call', name, args: signature.params.map(type => this.expr(type, 1)) };
+    }
+
+    // Arguments of any number and type, for calls outside semantic mode
+    private randomArgs(): FuzzExpr[] {
+        const args: FuzzExpr[] = [];
+        for (let i = this.random.int(3); i > 0; i--) {
+            args.push(this.expr(this.random.pick(FUZZ_TYPES), 1));
+        }
+        return args;
+    }
+
+    // int c c = 0 while (c != N) { c = 1 + c ... } always ends, since ints wrap at 8 bits
+    private loop(depth: number): FuzzStatement[] {
+        if (this.random.chance(0.2)) {
+            return [{ kind: 'while', cond: { kind: 'literal', type: 'boolean', text: 'false' }, body: this.block(depth + 1) }];
+        }
+        const counter = this.freshName();
+        this.scopes[this.scopes.length - 1].set(counter, 'int');
+        this.loopCounters.push(counter);
+        const limit = String(1 + this.random.int(9));
+        const body = this.block(depth + 1);
+        this.loopCounters.pop();
+        const increment: FuzzStatement = {
+            kind: 'assign',
+            name: counter,
+            expr: { kind: 'arith', type: 'int', op: '+', digit: '1', right: { kind: 'id', type: 'int', name: counter } }
+        };
+        return [
+            { kind: 'decl', type: 'int', name: counter },
+            { kind: 'assign', name: counter, expr: { kind: 'literal', type: 'int', text: '0' } },
+            {
+                kind: 'while',
+                cond: {
+                    kind: 'compare', type: 'boolean', op: '!=',
+                    left: { kind: 'id', type: 'int', name: counter },
+                    right: { kind: 'literal', type: 'int', text: limit }
+                },
+                body: [increment, ...body]
+            }
+        ];
+    }
+
+    // if and while take a BooleanExpr: a comparison or a boolean literal, never a bare Id
+    private condition(depth: number): FuzzExpr {
+        const operandType = this.random.pick(FUZZ_TYPES);
+        if (this.random.chance(0.3)) {
+            return { kind: 'literal', type: 'boolean', text: this.literal('boolean') };
+        }
+        // The operands of not, and and or are boolean expressions, never a sum the parser would split
+        if (depth > 0 && this.random.chance(0.15)) {
+            return { kind: 'not', type: 'boolean', operand: this.expr('boolean', depth - 1) };
+        }
+        if (depth > 0 && this.random.chance(0.2)) {
+            return {
+                kind: 'compare', type: 'boolean', op: this.random.pick(['and', 'or']),
+                left: this.expr('boolean', depth - 1), right: this.expr('boolean', depth - 1)
+            };
+        }
+        // The relational operators only type-check on ints
+        const ops = !this.semantic || operandType === 'int' ? ['==', '!=', '<', '<=', '>', '>='] : ['==', '!='];
+        return {
+            kind: 'compare', type: 'boolean', op: this.random.pick(ops),
+            left: this.expr(operandType, depth - 1),
+            right: this.expr(this.semantic ? operandType : this.random.pick(FUZZ_TYPES), depth - 1)
+        };
+    }
+
+    private expr(type: FuzzType, depth: number): FuzzExpr {
+        const variables = this.visible().filter(([, varType]) => !this.semantic || varType === type);
+        if (variables.length > 0 && this.random.chance(0.4)) {
+            return { kind: 'id', type, name: this.random.pick(variables)[0] };
+        }
+        if (depth > 0 && type === 'int' && this.random.chance(0.4)) {
+            return {
+                kind: 'arith', type: 'int', op: this.random.pick(['+', '-', '*']),
+                digit: String(this.random.int(10)), right: this.expr('int', depth - 1)
+            };
+        }
+        if (depth > 0 && type === 'boolean' && this.random.chance(0.5)) {
+            return this.condition(depth);
+        }
+        if (depth > 0 && this.random.chance(0.2)) {
+            if (!this.semantic) {
+                return { kind: 'call', type, name: this.random.pick(FUZZ_NAMES.split('')), args: this.randomArgs() };
+            }
+            const candidates = this.visibleFunctions().filter(([, signature]) => signature.returnType === type);
+            if (candidates.length > 0) {
+                const [name, signature] = this.random.pick(candidates);
+                return { kind: 'call', type, name, args: signature.params.map(paramType => this.expr(paramType, depth - 1)) };
+            }
+        }
+        return { kind: 'literal', type, text: this.literal(type) };
+    }
+
+    private literal(type: FuzzType): string {
+        switch (type) {
+            case 'int':
+                return String(this.random.int(10));
+            case 'boolean':
+                return this.random.pick(['true', 'false']);
+            default: {
+                let text = '';
+                const length = this.random.int(6);
+                for (let i = 0; i < length; i++) {
+                    text += this.random.pick('abcdefghijklmnopqrstuvwxyz '.split(''));
+                }
+                return `"${text}"`;
+            }
+        }
+    }
+
+    // Innermost declaration of every visible name
+    private visible(): [string, FuzzType][] {
+        const seen = new Map<string, FuzzType>();
+        for (let i = this.scopes.length - 1; i >= 0; i--) {
+            this.scopes[i].forEach((type, name) => {
+                if (!seen.has(name)) {
+                    seen.set(name, type);
+                }
+            });
+        }
+        return Array.from(seen.entries());
+    }
+
+    private visibleFunctions(): [string, FuzzSignature][] {
+        const seen = new Map<string, FuzzSignature>();
+        for (let i = this.functions.length - 1; i >= 0; i--) {
+            this.functions[i].forEach((signature, name) => {
+                if (!seen.has(name)) {
+                    seen.set(name, signature);
+                }
+            });
+        }
+        return Array.from(seen.entries());
+    }
+
+    // A name no visible variable or function has
+    private freshName(): string {
+        const used = [...this.visible(), ...this.visibleFunctions()].map(([name]) => name);
+        const free = FUZZ_NAMES.split('').filter(name => used.indexOf(name) === -1);
+        return free.length > 0 ? this.random.pick(free) : this.random.pick(FUZZ_NAMES.split(''));
+    }
+}
+
+function printFuzzExpr(expr: FuzzExpr): string {
+    switch (expr.kind) {
+        case 'literal':
+            return expr.text;
+        case 'id':
+            return expr.name;
+        case 'arith':
+            return `${expr.digit} ${expr.op} ${printFuzzExpr(expr.right)}`;
+        case 'compare':
+            return `(${printFuzzExpr(expr.left)} ${expr.op} ${printFuzzExpr(expr.right)})`;
+        case 'not':
+            return `not ${printFuzzExpr(expr.operand)}`;
+        case 'call':
+            return `${expr.name}(${expr.args.map(printFuzzExpr).join(', ')})`;
+    }
+}
+
+function printFuzzStatements(statements: FuzzStatement[], indent: string): string {
+    return statements.map(statement => {
+        switch (statement.kind) {
+            case 'decl':
+                return `${indent}${statement.type} ${statement.name}\n`;
+            case 'assign':
+                return `${indent}${statement.name} = ${printFuzzExpr(statement.expr)}\n`;
+            case 'print':
+                return `${indent}print(${printFuzzExpr(statement.expr)})\n`;
+            case 'if': {
+                const text = `${indent}if ${printFuzzExpr(statement.cond)} {\n` +
+                    printFuzzStatements(statement.body, indent + '    ') + `${indent}}`;
+                // The else branch goes on the closing line: } else { or } else if
+                return statement.orElse
+                    ? `${text} else ${printFuzzStatements([statement.orElse], indent).replace(/^\s+/, '')}`
+                    : `${text}\n`;
+            }
+            case 'while':
+                return `${indent}while ${printFuzzExpr(statement.cond)} {\n` +
+                    printFuzzStatements(statement.body, indent + '    ') + `${indent}}\n`;
+            case 'block':
+                return `${indent}{\n${printFuzzStatements(statement.body, indent + '    ')}${indent}}\n`;
+            case 'func': {
+                const params = statement.params.map(param => `${param.type} ${param.name}`).join(', ');
+                return `${indent}func ${statement.name}(${params})${statement.returnType ? `: ${statement.returnType}` : ''} {\n` +
+                    printFuzzStatements(statement.body, indent + '    ') + `${indent}}\n`;
+            }
+            case 'return':
+                return `${indent}return ${printFuzzExpr(statement.expr)}\n`;
+            case 'call':
+                return `${indent}${statement.name}(${statement.args.map(printFuzzExpr).join(', ')})\n`;
+        }
+    }).join('');
+}
+
+function printFuzzProgram(program: FuzzStatement[]): string {
+    return `{\n${printFuzzStatements(program, '    ')}}$\n`;
+}
+
+// Every program is compiled with the optimizer on and off, so folding a program down
+// to a few prints cannot hide a bug in the code generator
+const FUZZ_OPTIMIZER_SETTINGS: { label: string, optimize: OptimizerOptions }[] = [
+    { label: '', optimize: {} },
+    { label: ' with -O0', optimize: { fold: false, propagate: false, deadCode: false, deadStores: false } }
+];
+
+// Why a program failed, or null when every phase behaved
+function checkFuzzProgram(source: string, semantic: boolean): FuzzFailure | null {
+    for (const setting of FUZZ_OPTIMIZER_SETTINGS) {
+        const failure = checkFuzzResult(compileProgram(source, { optimize: setting.optimize }), semantic);
+        if (failure) {
+            return { ...failure, message: failure.message + setting.label };
+        }
+    }
+    return null;
+}
+
+function checkFuzzResult(result: CompileResult, semantic: boolean): FuzzFailure | null {
+    if (result.fatalError) {
+        return { kind: 'exception', message: result.fatalError };
+    }
+    for (const phase of [result.lexer, result.parser, ...(semantic ? [result.semantic] : [])]) {
+        const errors = phaseErrors(phase);
+        if (errors.length > 0) {
+            return { kind: errors[0].phase, message: `rejected a valid program: ${formatDiagnosticText(errors[0])}` };
+        }
+    }
+    if (!result.ast || !result.codegen.ran) {
+        return null;
+    }
+
+    // Running out of memory is a correct verdict; any other codegen error is not
+    const codegenErrors = phaseErrors(result.codegen).filter(error => error.code !== 'E401');
+    if (codegenErrors.length > 0) {
+        return { kind: 'codegen', message: `code generation failed: ${formatDiagnosticText(codegenErrors[0])}` };
+    }
+    if (!result.success) {
+        return null;
+    }
+    if (result.binary.length !== 0x100) {
+        return { kind: 'overflow', message: `image is ${result.binary.length} bytes instead of 256` };
+    }
+
+    // Output is only defined when no variable is read before it is assigned
+    if (result.semantic.diagnostics.some(diagnostic => diagnostic.code === 'W301')) {
+        return null;
+    }
+    const expected = new Interpreter(result.ast).run();
+    const actual = new Emulator(result.binary).run();
+    if (expected.error || (actual.error && actual.error.startsWith('Cycle limit'))) {
+        return null;
+    }
+    if (actual.error || expected.stdout !== actual.stdout) {
+        return {
+            kind: 'output',
+            message: `machine printed ${JSON.stringify(actual.stdout)}${actual.error ? ` (${actual.error})` : ''}` +
+                ` but the interpreter printed ${JSON.stringify(expected.stdout)}`
+        };
+    }
+    return null;
+}
+
+// Smaller variants of a statement list: drop a statement, inline a nested body,
+// or simplify an expression to a literal of the same type
+function shrinkFuzzStatements(statements: FuzzStatement[]): FuzzStatement[][] {
+    const variants: FuzzStatement[][] = [];
+    const replace = (index: number, replacement: FuzzStatement[]) =>
+        [...statements.slice(0, index), ...replacement, ...statements.slice(index + 1)];
+
+    statements.forEach((statement, index) => {
+        variants.push(replace(index, []));
+        if (statement.kind === 'if' || statement.kind === 'while' || statement.kind === 'block') {
+            variants.push(replace(index, statement.body));
+        }
+        if (statement.kind === 'if' || statement.kind === 'while' || statement.kind === 'block' || statement.kind === 'func') {
+            for (const body of shrinkFuzzStatements(statement.body)) {
+                variants.push(replace(index, [{ ...statement, body }]));
+            }
+        }
+        if (statement.kind === 'if' && statement.orElse) {
+            // Drop the else, keep only the else, or shrink the else to another block or if
+            variants.push(replace(index, [{ ...statement, orElse: null }]));
+            variants.push(replace(index, [statement.orElse]));
+            for (const shrunk of shrinkFuzzStatements([statement.orElse])) {
+                if (shrunk.length === 1 && (shrunk[0].kind === 'block' || shrunk[0].kind === 'if')) {
+                    variants.push(replace(index, [{ ...statement, orElse: shrunk[0] }]));
+                }
+            }
+        }
+        if (statement.kind === 'call') {
+            for (const args of shrinkFuzzArgs(statement.args)) {
+                variants.push(replace(index, [{ ...statement, args }]));
+            }
+        }
+        if (statement.kind === 'assign' || statement.kind === 'print' || statement.kind === 'return') {
+            for (const expr of shrinkFuzzExpr(statement.expr)) {
+                variants.push(replace(index, [{ ...statement, expr }]));
+            }
+        }
+        if (statement.kind === 'if' || statement.kind === 'while') {
+            for (const cond of shrinkFuzzExpr(statement.cond)) {
+                variants.push(replace(index, [{ ...statement, cond }]));
+            }
+        }
+    });
+    return variants;
+}
+
+function shrinkFuzzExpr(expr: FuzzExpr): FuzzExpr[] {
+    const simplest: FuzzExpr = {
+        kind: 'literal',
+        type: expr.type,
+        text: expr.type === 'int' ? '0' : expr.type === 'boolean' ? 'false' : '""'
+    };
+    switch (expr.kind) {
+        case 'literal':
+            return expr.text === simplest.text ? [] : [simplest];
+        case 'id':
+            return [simplest];
+        case 'arith':
+            return [simplest, expr.right, ...shrinkFuzzExpr(expr.right).map(right => ({ ...expr, right }))];
+        case 'compare':
+            return [
+                simplest,
+                ...shrinkFuzzExpr(expr.left).map(left => ({ ...expr, left })),
+                ...shrinkFuzzExpr(expr.right).map(right => ({ ...expr, right }))
+            ];
+        case 'not':
+            return [simplest, ...shrinkFuzzExpr(expr.operand).map(operand => ({ ...expr, operand }))];
+        case 'call':
+            return [simplest, ...shrinkFuzzArgs(expr.args).map(args => ({ ...expr, args }))];
+    }
+}
+
+// Arguments with one of them simplified; the count stays, so the call still type-checks
+function shrinkFuzzArgs(args: FuzzExpr[]): FuzzExpr[][] {
+    const variants: FuzzExpr[][] = [];
+    args.forEach((arg, index) => {
+        for (const shrunk of shrinkFuzzExpr(arg)) {
+            variants.push([...args.slice(0, index), shrunk, ...args.slice(index + 1)]);
+        }
+    });
+    return variants;
+}
+
+// Greedily take the first smaller variant that still fails the same way until none does
+function shrinkFuzzProgram(program: FuzzStatement[], failure: FuzzFailure, semantic: boolean): FuzzStatement[] {
+    let current = program;
+    let shrunk = true;
+    while (shrunk) {
+        shrunk = false;
+        for (const candidate of shrinkFuzzStatements(current)) {
+            const candidateFailure = checkFuzzProgram(printFuzzProgram(candidate), semantic);
+            if (candidateFailure !== null && candidateFailure.kind === failure.kind) {
+                current = candidate;
+                shrunk = true;
+                break;
+            }
+        }
+    }
+    return current;
+}
+
+function runFuzz(args: string[]): number {
+    if (args.indexOf('-h') !== -1 || args.indexOf('--help') !== -1) {
+        process.stdout.write(FUZZ_USAGE);
+        return 0;
+    }
+
+    let count = 200;
+    let seed = Math.floor(Math.random() * 0xFFFFFFFF);
+    let semantic = false;
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === '--count' || args[i] === '--seed') {
+            const value = Number(args[i + 1]);
+            if (!Number.isInteger(value) || value < 0) {
+                process.stderr.write(`fuzz: option '${args[i]}' needs a non-negative integer\n\n${FUZZ_USAGE}`);
+                return 2;
+            }
+            if (args[i] === '--count') {
+                count = value;
+            } else {
+                seed = value;
+            }
+            i++;
+        } else if (args[i] === '--semantic') {
+            semantic = true;
+        } else {
+            process.stderr.write(`fuzz: unknown option '${args[i]}'\n\n${FUZZ_USAGE}`);
+            return 2;
+        }
+    }
+
+    const random = new FuzzRandom(seed);
+    for (let i = 0; i < count; i++) {
+        const program = new ProgramGenerator(random, semantic).program();
+        const failure = checkFuzzProgram(printFuzzProgram(program), semantic);
+        if (failure === null) {
+            continue;
+        }
+
+        const minimal = shrinkFuzzProgram(program, failure, semantic);
+        process.stdout.write(`Program ${i + 1} (seed ${seed}${semantic ? ', --semantic' : ''}) failed: ${failure.message}\n`);
+        process.stdout.write(`Minimal reproduction (${checkFuzzProgram(printFuzzProgram(minimal), semantic)!.message}):\n`);
+        process.stdout.write(printFuzzProgram(minimal));
+        return 1;
+    }
+
+    process.stdout.write(`${count} program(s) passed (seed ${seed}${semantic ? ', --semantic' : ''})\n`);
+    return 0;
+}
+
+process.exitCode = runFuzz(process.argv.slice(2));
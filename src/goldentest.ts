@@ -0,0 +1,131 @@
+#!/usr/bin/env node
+// goldentest - golden-file regression suite over the bundled test case files
+//
+//   node dist/goldentest.js [--update] [file.txt ...]
+//
+// Every program is run through all phases and its tokens, diagnostics, CST, AST,
+// optimizer report, IR and hex image are compared with snapshots/<file>.snap.
+// --update rewrites the snapshots after an intended change in behavior.
+// Exit codes: 0 when every snapshot matched, 1 on a mismatch, 2 for I/O problems.
+
+require('./NodeHost.js');
+loadCompilerScripts();
+
+// Test files checked when no files are given, relative to the repository root
+const GOLDEN_DEFAULT_FILES = ['Lexer_Test_Cases.txt', 'Parser_Test_Cases.txt', 'SemanticAnalysisTestcases.txt', 'Regression_Test_Cases.txt'];
+
+// Everything observable about one program, one section per phase output
+function formatGoldenProgram(result: CompileResult, programNum: number): string {
+    const sections = [`=== Program ${programNum}`];
+    sections.push('--- tokens', ...result.tokens.map(token =>
+        `${token.type} [ ${token.value === null ? '' : token.value} ] ${token.line}:${token.column}`));
+    sections.push('--- diagnostics', ...collectDiagnostics(result).map(diagnostic =>
+        `${diagnostic.code} ${formatDiagnosticText(diagnostic)}`));
+    if (result.fatalError) {
+        sections.push('--- fatal', result.fatalError);
+    }
+    if (result.cst) {
+        sections.push('--- cst', Parser.visualizeTreeText(result.cst).replace(/\s+$/, ''));
+    }
+    if (result.ast) {
+        sections.push('--- ast', SemanticAnalyser.visualizeTree(result.ast).replace(/\s+$/, ''));
+    }
+    if (result.optimization) {
+        sections.push('--- optimizer', Optimizer.formatReport(result.optimization));
+    }
+    if (result.ir) {
+        sections.push('--- ir', IRBuilder.format(result.ir).replace(/\s+$/, ''));
+    }
+    if (result.success) {
+        sections.push('--- hex', formatHexImage(result.binary).replace(/\s+$/, ''));
+    }
+    return sections.join('\n') + '\n';
+}
+
+// Point at the first line that differs; the whole snapshot is usually too long to show
+function describeGoldenMismatch(expected: string, actual: string): string {
+    const expectedLines = expected.split('\n');
+    const actualLines = actual.split('\n');
+    let line = 0;
+    while (line < expectedLines.length && expectedLines[line] === actualLines[line]) {
+        line++;
+    }
+    // The nearest program header above the difference says where to look
+    let header = '';
+    for (let i = line; i >= 0 && !header; i--) {
+        if ((actualLines[i] || '').startsWith('=== ')) {
+            header = ` (${actualLines[i].substring(4)})`;
+        }
+    }
+    return [
+        `  first difference at line ${line + 1}${header}`,
+        `  - ${line < expectedLines.length ? expectedLines[line] : '<end of snapshot>'}`,
+        `  + ${line < actualLines.length ? actualLines[line] : '<end of output>'}`
+    ].join('\n');
+}
+
+function runGoldentest(args: string[]): number {
+    const fs = require('fs');
+    const path = require('path');
+    const update = args.indexOf('--update') !== -1;
+    const inputs = args.filter(arg => arg !== '--update');
+    const files = inputs.length > 0 ? inputs : GOLDEN_DEFAULT_FILES.map(file => path.join(__dirname, '..', file));
+    const snapshotDir = path.join(__dirname, '..', 'snapshots');
+
+    let failed = 0;
+    for (const file of files) {
+        const snapshotPath = path.join(snapshotDir, `${path.basename(file)}.snap`);
+        let sourceCode: string;
+        try {
+            sourceCode = fs.readFileSync(file, 'utf8');
+        } catch (error) {
+            process.stderr.write(`goldentest: cannot read '${file}': ${(error as Error).message}\n`);
+            return 2;
+        }
+
+        // A compiler that throws is a failure of the program it threw on, not of the file
+        const programs = splitPrograms(sourceCode);
+        const outputs: string[] = [];
+        let crash = '';
+        for (let i = 0; i < programs.length && !crash; i++) {
+            try {
+                outputs.push(formatGoldenProgram(compileProgram(programs[i]), i + 1));
+            } catch (error) {
+                crash = `  program ${i + 1} threw: ${(error as Error).message}`;
+            }
+        }
+        if (crash) {
+            process.stdout.write(`FAIL ${path.basename(file)}\n${crash}\n`);
+            failed++;
+            continue;
+        }
+        const actual = outputs.join('\n');
+
+        if (update) {
+            try {
+                fs.mkdirSync(snapshotDir, { recursive: true });
+                fs.writeFileSync(snapshotPath, actual);
+            } catch (error) {
+                process.stderr.write(`goldentest: cannot write '${snapshotPath}': ${(error as Error).message}\n`);
+                return 2;
+            }
+            process.stdout.write(`updated ${path.basename(snapshotPath)}\n`);
+            continue;
+        }
+
+        const expected = fs.existsSync(snapshotPath) ? fs.readFileSync(snapshotPath, 'utf8') : null;
+        if (expected === null) {
+            process.stdout.write(`MISSING ${path.basename(file)}: no snapshot, run with --update to create it\n`);
+            failed++;
+        } else if (expected !== actual) {
+            process.stdout.write(`FAIL ${path.basename(file)}\n${describeGoldenMismatch(expected, actual)}\n`);
+            failed++;
+        } else {
+            process.stdout.write(`ok   ${path.basename(file)}\n`);
+        }
+    }
+
+    return failed > 0 ? 1 : 0;
+}
+
+process.exitCode = runGoldentest(process.argv.slice(2));
@@ -3,6 +3,10 @@ class TreeNode {
     name: string;
     children: TreeNode[];
     value?: string;
+    line?: number;   // Position of the token the node starts at
+    column?: number;
+    start?: SourcePosition; // Span of the tokens the node was parsed from
+    end?: SourcePosition;
 
     constructor(name: string, value?: string) {
         this.name = name;
@@ -15,42 +19,29 @@ class TreeNode {
     }
 }
 
-// Reference to the Token class defined in Lexer.Ts
-declare class Token {
-    type: string;
-    value: string | null;
-    line: number;
-    column: number;
-
-    constructor(type: string, value: string | null);
-}
-
-// Reference to the Lexer class defined in Lexer.Ts
-declare class Lexer {
-    currentErrorMessage: string;
-    errors: string[];
-    line: number;
-    column: number;
-
-    constructor(input: string);
-    getNextToken(): Token;
-    formatToken(type: string, value: string | null): string;
-}
-
 class Parser {
     private tokens: Token[];
     private currentTokenIndex: number;
-    private errors: string[];
+    private diagnostics: Diagnostic[];
     private warnings: string[];
     private cst: TreeNode | null;
     private debugCallback?: (message: string) => void;
+    // Panic-mode recovery: the Error node for the latest error, and the token it was
+    // reported at so follow-on errors at the same token are not repeated
+    private lastErrorNode: TreeNode | null;
+    private lastErrorIndex: number;
+
+    // Tokens the parser can resume at after a syntax error
+    private static readonly SYNC_TOKENS = ['PRINT', 'TYPE', 'WHILE', 'IF', 'FUNC', 'RETURN', 'LBRACE', 'RBRACE', 'EOP', 'EOF'];
 
     constructor(tokens: Token[]) {
         this.tokens = tokens;
         this.currentTokenIndex = 0;
-        this.errors = [];
+        this.diagnostics = [];
         this.warnings = [];
         this.cst = null;
+        this.lastErrorNode = null;
+        this.lastErrorIndex = -1;
     }
 
     // Helper methods
@@ -61,27 +52,106 @@ class Parser {
         return this.tokens[this.currentTokenIndex];
     }
 
+    private peekToken(): Token {
+        return this.tokens[this.currentTokenIndex + 1] || new Token('EOF', null);
+    }
+
     private advance(): void {
         if (this.currentTokenIndex < this.tokens.length) {
             this.currentTokenIndex++;
         }
     }
 
-    private addError(message: string): void {
+    // Create a CST node positioned at the given token (the current one by default).
+    // Leaves keep the token's span; finish() extends the others once they are parsed.
+    private createNode(name: string, value?: string, token: Token = this.getCurrentToken()): TreeNode {
+        const node = new TreeNode(name, value);
+        if (token.type !== 'EOF') {
+            node.line = token.line;
+            node.column = token.column;
+            node.start = token.start;
+            node.end = token.end;
+        }
+        return node;
+    }
+
+    // Extend a node's span to the end of the last token consumed
+    private finish(node: TreeNode): TreeNode {
+        const lastToken = this.tokens[this.currentTokenIndex - 1];
+        if (lastToken && (!node.start || lastToken.end.offset > node.start.offset)) {
+            node.end = lastToken.end;
+            if (!node.start) {
+                node.start = lastToken.start;
+                node.line = lastToken.line;
+                node.column = lastToken.column;
+            }
+        } else if (node.start) {
+            // Nothing consumed (an empty StatementList): an empty span where it would be
+            node.end = node.start;
+        }
+        return node;
+    }
+
+    private addError(message: string, code: string = 'E201'): void {
         const token = this.getCurrentToken();
-        let position = 'end of file';
+        this.lastErrorNode = this.createNode('Error', message);
+        if (this.currentTokenIndex === this.lastErrorIndex) {
+            // Already reported an error here; this one is a consequence of it
+            this.debug(`Suppressed follow-on error: ${message}`);
+            return;
+        }
+        this.lastErrorIndex = this.currentTokenIndex;
+        let range: SourceRange | null = null;
         
         // Get the position from the current token or the previous token if more appropriate
         if (token && token.type !== 'EOF') {
-            position = `line ${token.line}:${token.column}`;
+            range = token;
         } else if (this.currentTokenIndex > 0 && this.tokens.length > 0) {
             // If we're at EOF, use the last token's position
-            const lastToken = this.tokens[this.currentTokenIndex - 1];
-            position = `line ${lastToken.line}:${lastToken.column}`;
+            range = this.tokens[this.currentTokenIndex - 1];
         }
         
-        this.errors.push(`PARSER --> Error: ${message} at ${position}`);
-        this.debug(`ERROR: ${message} at ${position}`);
+        this.diagnostics.push(createDiagnostic('parser', 'error', code, message, range && range.start, range && range.end, this.splitWordHints()));
+        this.debug(`ERROR: ${message} at ${range ? `line ${range.start.line}:${range.start.column}` : 'end of file'}`);
+    }
+
+    // Classic Alan++ lexes 12 as two DIGITs and ab as two IDs, so an error on the second
+    // half of such a word is most likely a literal or name meant for the extended language
+    private splitWordHints(): string[] {
+        const token = this.getCurrentToken();
+        if (token.type !== 'DIGIT' && token.type !== 'ID') {
+            return [];
+        }
+        // The whole run of touching tokens of the same type
+        const adjoins = (left: Token | undefined, right: Token | undefined) =>
+            !!left && !!right && left.type === token.type && right.type === token.type && left.end.offset === right.start.offset;
+        let first = this.currentTokenIndex;
+        while (adjoins(this.tokens[first - 1], this.tokens[first])) {
+            first--;
+        }
+        let last = this.currentTokenIndex;
+        while (adjoins(this.tokens[last], this.tokens[last + 1])) {
+            last++;
+        }
+        if (first === last) {
+            return [];
+        }
+        const word = this.tokens.slice(first, last + 1).map(t => t.value).join('');
+        return token.type === 'DIGIT'
+            ? [`'${word}' is ${last - first + 1} literals in classic Alan++; multi-digit literals need the extended language`]
+            : [`'${word}' is ${last - first + 1} identifiers in classic Alan++; longer names need the extended language`];
+    }
+
+    // Skip tokens until one the parser can resume at
+    private synchronize(): void {
+        while (Parser.SYNC_TOKENS.indexOf(this.getCurrentToken().type) === -1) {
+            this.debug(`Skipping ${this.getCurrentToken().type} while recovering`);
+            this.advance();
+        }
+    }
+
+    private isStatementStart(): boolean {
+        return ['PRINT', 'TYPE', 'ID', 'WHILE', 'IF', 'FUNC', 'RETURN', 'LBRACE'].indexOf(this.getCurrentToken().type) !== -1;
     }
 
     private match(expectedType: string): boolean {
@@ -102,9 +172,11 @@ class Parser {
     }
 
     // Parsing methods following the grammar
-    parseProgram(): TreeNode | null {
+    // A syntax error is recorded, marked with an Error node in the CST and parsing
+    // resumes at the next statement, '}' or '$', so one pass reports every error
+    parseProgram(): TreeNode {
         this.debug('Program');
-        const programNode = new TreeNode('Program');
+        const programNode = this.createNode('Program');
         
         // Program ::== Block $
         this.debug('Attempting to parse Block');
@@ -112,26 +184,35 @@ class Parser {
         if (blockNode) {
             programNode.addChild(blockNode);
             this.debug('Block parsed successfully');
+        } else {
+            programNode.addChild(this.lastErrorNode!);
+        }
+        
+        this.debug('Expecting EOP ($)');
+        if (this.getCurrentToken().type === 'EOF') {
+            // The last program of a file may leave out its '$'; the lexer warns about it
+            this.debug('Reached end of input without EOP');
+        } else if (!this.expect('EOP', "Expected end of program symbol '$'")) {
+            this.debug('Failed to find EOP');
+            programNode.addChild(this.lastErrorNode!);
             
-            this.debug('Expecting EOP ($)');
-            if (!this.expect('EOP', "Expected end of program symbol '$'")) {
-                this.debug('Failed to find EOP');
-                return null;
+            // Skip whatever is left of this program
+            while (this.getCurrentToken().type !== 'EOP' && this.getCurrentToken().type !== 'EOF') {
+                this.advance();
             }
+            this.match('EOP');
+        } else {
             this.debug('Found EOP');
-            
-            this.cst = programNode;
-            this.debug('Program parsed successfully');
-            return programNode;
         }
         
-        this.debug('Failed to parse Program');
-        return null;
+        this.cst = this.finish(programNode);
+        this.debug(this.diagnostics.length === 0 ? 'Program parsed successfully' : `Program parsed with ${this.diagnostics.length} error(s)`);
+        return programNode;
     }
 
     private parseBlock(): TreeNode | null {
         this.debug('Block');
-        const blockNode = new TreeNode('Block');
+        const blockNode = this.createNode('Block');
         
         // Block ::== { StatementList }
         this.debug('Expecting LBRACE ({)');
@@ -142,28 +223,38 @@ class Parser {
         this.debug('Found LBRACE');
 
         this.debug('Attempting to parse StatementList');
-        const stmtListNode = this.parseStatementList();
-        if (stmtListNode) {
-            blockNode.addChild(stmtListNode);
-            this.debug('StatementList parsed successfully');
-        } else {
-            this.debug('Empty StatementList');
-        }
+        blockNode.addChild(this.parseStatementList());
+        this.debug('StatementList parsed');
 
         this.debug('Expecting RBRACE (})');
         if (!this.expect('RBRACE', "Expected '}'")) {
+            // Keep the block so its statements stay in the CST
             this.debug('Failed to find RBRACE');
-            return null;
+            blockNode.addChild(this.lastErrorNode!);
+            return this.finish(blockNode);
         }
         this.debug('Found RBRACE');
         this.debug('Block parsed successfully');
 
-        return blockNode;
+        return this.finish(blockNode);
     }
 
-    private parseStatementList(): TreeNode | null {
+    private parseStatementList(): TreeNode {
         this.debug('StatementList');
-        const stmtListNode = new TreeNode('StatementList');
+        const stmtListNode = this.createNode('StatementList');
+        
+        // Anything that neither starts a statement nor ends the block is skipped
+        const token = this.getCurrentToken();
+        if (!this.isStatementStart() && token.type !== 'RBRACE' && token.type !== 'EOP' && token.type !== 'EOF') {
+            this.addError(`Unexpected ${token.type}${token.value ? ` '${token.value}'` : ''} where a statement was expected`, 'E202');
+            stmtListNode.addChild(this.lastErrorNode!);
+            this.synchronize();
+        }
+        
+        if (!this.isStatementStart()) {
+            this.debug('No more statements found (ε production)');
+            return this.finish(stmtListNode);
+        }
         
         // Try to parse a statement
         this.debug('Attempting to parse Statement');
@@ -171,19 +262,16 @@ class Parser {
         if (stmtNode) {
             stmtListNode.addChild(stmtNode);
             this.debug('Statement parsed successfully');
-            
-            // Recursively parse the rest of the statement list
-            this.debug('Recursively parsing StatementList');
-            const restStmtList = this.parseStatementList();
-            if (restStmtList) {
-                stmtListNode.addChild(restStmtList);
-                this.debug('Recursive StatementList parsed successfully');
-            }
-            return stmtListNode;
+        } else {
+            // Mark the broken statement and resume at the next safe token
+            stmtListNode.addChild(this.lastErrorNode!);
+            this.synchronize();
         }
         
-        this.debug('No more statements found (ε production)');
-        return stmtListNode;
+        // Recursively parse the rest of the statement list
+        this.debug('Recursively parsing StatementList');
+        stmtListNode.addChild(this.parseStatementList());
+        return this.finish(stmtListNode);
     }
 
     private parseStatement(): TreeNode | null {
@@ -199,6 +287,10 @@ class Parser {
                 this.debug('Found TYPE declaration');
                 return this.parseVarDecl();
             case 'ID':
+                if (this.peekToken().type === 'LPAREN') {
+                    this.debug('Found ID followed by LPAREN (call)');
+                    return this.parseCall();
+                }
                 this.debug('Found ID (assignment)');
                 return this.parseAssignmentStatement();
             case 'WHILE':
@@ -207,6 +299,12 @@ class Parser {
             case 'IF':
                 this.debug('Found IF statement');
                 return this.parseIfStatement();
+            case 'FUNC':
+                this.debug('Found FUNC declaration');
+                return this.parseFuncDecl();
+            case 'RETURN':
+                this.debug('Found RETURN statement');
+                return this.parseReturnStatement();
             case 'LBRACE':
                 this.debug('Found nested block');
                 return this.parseBlock();
@@ -218,7 +316,7 @@ class Parser {
 
     private parsePrintStatement(): TreeNode | null {
         this.debug('PrintStatement');
-        const printNode = new TreeNode('PrintStatement');
+        const printNode = this.createNode('PrintStatement');
         
         // print ( Expr )
         this.advance(); // consume 'print'
@@ -233,7 +331,7 @@ class Parser {
         const exprNode = this.parseExpr();
         if (!exprNode) {
             this.debug('Failed to parse expression');
-            this.addError("Expected expression in print statement");
+            this.addError("Expected expression in print statement", 'E203');
             return null;
         }
         this.debug('Expression parsed successfully');
@@ -247,17 +345,17 @@ class Parser {
         this.debug('Found RPAREN');
         this.debug('PrintStatement parsed successfully');
         
-        return printNode;
+        return this.finish(printNode);
     }
 
     private parseVarDecl(): TreeNode | null {
         this.debug('VarDecl');
-        const varDeclNode = new TreeNode('VarDecl');
+        const varDeclNode = this.createNode('VarDecl');
         
         // type Id
         const typeToken = this.getCurrentToken();
         this.advance(); // consume type
-        varDeclNode.addChild(new TreeNode('Type', typeToken.value || ''));
+        varDeclNode.addChild(this.createNode('Type', typeToken.value || '', typeToken));
         
         // Check if the next token is an ID
         if (this.getCurrentToken().type !== 'ID') {
@@ -268,14 +366,14 @@ class Parser {
         // Consume the ID
         const idToken = this.getCurrentToken();
         this.advance();
-        varDeclNode.addChild(new TreeNode('Id', idToken.value || ''));
+        varDeclNode.addChild(this.createNode('Id', idToken.value || '', idToken));
         
-        return varDeclNode;
+        return this.finish(varDeclNode);
     }
 
     private parseAssignmentStatement(): TreeNode | null {
         this.debug('AssignmentStatement');
-        const assignNode = new TreeNode('AssignmentStatement');
+        const assignNode = this.createNode('AssignmentStatement');
         
         // Id = Expr
         if (this.getCurrentToken().type !== 'ID') {
@@ -285,7 +383,7 @@ class Parser {
         
         const idToken = this.getCurrentToken();
         this.advance(); // consume ID
-        assignNode.addChild(new TreeNode('Id', idToken.value || ''));
+        assignNode.addChild(this.createNode('Id', idToken.value || '', idToken));
         
         if (this.getCurrentToken().type !== 'ASSIGN') {
             this.addError(`Expected '=' after identifier '${idToken.value}'`);
@@ -295,22 +393,22 @@ class Parser {
         
         const exprNode = this.parseExpr();
         if (!exprNode) {
-            this.addError(`Expected expression after '=' in assignment to '${idToken.value}'`);
+            this.addError(`Expected expression after '=' in assignment to '${idToken.value}'`, 'E203');
             return null;
         }
         assignNode.addChild(exprNode);
         
-        return assignNode;
+        return this.finish(assignNode);
     }
 
     private parseWhileStatement(): TreeNode | null {
-        const whileNode = new TreeNode('WhileStatement');
+        const whileNode = this.createNode('WhileStatement');
         
         // while BooleanExpr Block
         this.advance(); // consume 'while'
         const boolExprNode = this.parseBooleanExpr();
         if (!boolExprNode) {
-            this.addError("Expected boolean expression after 'while'");
+            this.addError("Expected boolean expression after 'while'", 'E203');
             return null;
         }
         whileNode.addChild(boolExprNode);
@@ -319,17 +417,17 @@ class Parser {
         if (!blockNode) return null;
         whileNode.addChild(blockNode);
         
-        return whileNode;
+        return this.finish(whileNode);
     }
 
     private parseIfStatement(): TreeNode | null {
-        const ifNode = new TreeNode('IfStatement');
+        const ifNode = this.createNode('IfStatement');
         
-        // if BooleanExpr Block
+        // if BooleanExpr Block ElseClause?
         this.advance(); // consume 'if'
         const boolExprNode = this.parseBooleanExpr();
         if (!boolExprNode) {
-            this.addError("Expected boolean expression after 'if'");
+            this.addError("Expected boolean expression after 'if'", 'E203');
             return null;
         }
         ifNode.addChild(boolExprNode);
@@ -338,7 +436,121 @@ class Parser {
         if (!blockNode) return null;
         ifNode.addChild(blockNode);
         
-        return ifNode;
+        if (this.getCurrentToken().type === 'ELSE') {
+            const elseNode = this.parseElseClause();
+            if (!elseNode) return null;
+            ifNode.addChild(elseNode);
+        }
+        
+        return this.finish(ifNode);
+    }
+
+    private parseElseClause(): TreeNode | null {
+        const elseNode = this.createNode('ElseClause');
+        
+        // ElseClause ::== else Block | else IfStatement
+        this.advance(); // consume 'else'
+        const next = this.getCurrentToken().type;
+        if (next !== 'IF' && next !== 'LBRACE') {
+            this.addError("Expected '{' or 'if' after 'else'");
+            return null;
+        }
+        const branchNode = next === 'IF' ? this.parseIfStatement() : this.parseBlock();
+        if (!branchNode) return null;
+        elseNode.addChild(branchNode);
+        
+        return this.finish(elseNode);
+    }
+
+    private parseFuncDecl(): TreeNode | null {
+        const funcNode = this.createNode('FuncDecl');
+        
+        // func Id ( ParamList ) ReturnType? Block, where ReturnType ::== : type
+        this.advance(); // consume 'func'
+        const idToken = this.getCurrentToken();
+        if (!this.expect('ID', "Expected function name after 'func'")) return null;
+        funcNode.addChild(this.createNode('Id', idToken.value || '', idToken));
+        
+        if (!this.expect('LPAREN', `Expected '(' after function name '${idToken.value}'`)) return null;
+        const paramListNode = this.parseParamList();
+        if (!paramListNode) return null;
+        funcNode.addChild(paramListNode);
+        if (!this.expect('RPAREN', "Expected ')' after parameters")) return null;
+        
+        if (this.match('COLON')) {
+            const typeToken = this.getCurrentToken();
+            if (!this.expect('TYPE', "Expected return type after ':'")) return null;
+            funcNode.addChild(this.createNode('Type', typeToken.value || '', typeToken));
+        }
+        
+        const blockNode = this.parseBlock();
+        if (!blockNode) return null;
+        funcNode.addChild(blockNode);
+        
+        return this.finish(funcNode);
+    }
+
+    // ParamList ::== type Id { , type Id } | ε
+    private parseParamList(): TreeNode | null {
+        const paramListNode = this.createNode('ParamList');
+        if (this.getCurrentToken().type === 'RPAREN') {
+            return this.finish(paramListNode);
+        }
+        
+        do {
+            const paramNode = this.createNode('Param');
+            const typeToken = this.getCurrentToken();
+            if (!this.expect('TYPE', "Expected parameter type")) return null;
+            paramNode.addChild(this.createNode('Type', typeToken.value || '', typeToken));
+            const idToken = this.getCurrentToken();
+            if (!this.expect('ID', `Expected parameter name after type '${typeToken.value}'`)) return null;
+            paramNode.addChild(this.createNode('Id', idToken.value || '', idToken));
+            paramListNode.addChild(this.finish(paramNode));
+        } while (this.match('COMMA'));
+        
+        return this.finish(paramListNode);
+    }
+
+    // return Expr? - the value is left out when no expression follows, so a
+    // following assignment is never taken for one
+    private parseReturnStatement(): TreeNode | null {
+        const returnNode = this.createNode('ReturnStatement');
+        
+        this.advance(); // consume 'return'
+        const token = this.getCurrentToken();
+        const startsExpr = ['DIGIT', 'QUOTE', 'LPAREN', 'BOOLVAL', 'NOT'].indexOf(token.type) !== -1 ||
+            (token.type === 'ID' && this.peekToken().type !== 'ASSIGN');
+        if (startsExpr) {
+            const exprNode = this.parseExpr();
+            if (!exprNode) return null;
+            returnNode.addChild(exprNode);
+        }
+        
+        return this.finish(returnNode);
+    }
+
+    // Call ::== Id ( ArgList ), as a statement or an expression; ArgList ::== Expr { , Expr } | ε
+    private parseCall(): TreeNode | null {
+        const callNode = this.createNode('Call');
+        
+        const idToken = this.getCurrentToken();
+        this.advance(); // consume ID
+        callNode.addChild(this.createNode('Id', idToken.value || '', idToken));
+        this.advance(); // consume (
+        
+        if (this.getCurrentToken().type !== 'RPAREN') {
+            do {
+                const argNode = this.parseExpr();
+                if (!argNode) {
+                    this.addError(`Expected argument in call to '${idToken.value}'`, 'E203');
+                    return null;
+                }
+                callNode.addChild(argNode);
+            } while (this.match('COMMA'));
+        }
+        
+        if (!this.expect('RPAREN', "Expected ')' after arguments")) return null;
+        return this.finish(callNode);
     }
 
     private parseExpr(): TreeNode | null {
@@ -354,83 +566,195 @@ class Parser {
             this.debug('Found QUOTE (StringExpr)');
             return this.parseStringExpr();
         }
-        if (token.type === 'LPAREN' || token.type === 'BOOLVAL') {
-            this.debug('Found LPAREN or BOOLVAL (BooleanExpr)');
+        if (token.type === 'LPAREN' || token.type === 'BOOLVAL' || token.type === 'NOT') {
+            this.debug('Found LPAREN, BOOLVAL or NOT (BooleanExpr)');
             return this.parseBooleanExpr();
         }
+        if (token.type === 'ID' && this.peekToken().type === 'LPAREN') {
+            this.debug('Found ID followed by LPAREN (Call)');
+            return this.parseCall();
+        }
         if (token.type === 'ID') {
             this.debug('Found ID');
             this.advance();
             this.debug('ID parsed successfully');
-            return new TreeNode('Id', token.value || '');
+            return this.createNode('Id', token.value || '', token);
         }
         
         this.debug('No valid expression found');
         return null;
     }
 
+    // IntExpr ::== Term { (+ | -) Term }, so * binds tighter and every operator
+    // associates to the left. The first operand is always a digit.
     private parseIntExpr(): TreeNode | null {
-        const intExprNode = new TreeNode('IntExpr');
+        const intExprNode = this.createNode('IntExpr');
         
-        // Get the digit
-        const digitToken = this.getCurrentToken();
-        this.advance();
-        intExprNode.addChild(new TreeNode('Digit', digitToken.value || ''));
+        const termNode = this.parseTerm();
+        if (!termNode) return null;
+        intExprNode.addChild(termNode);
         
-        // Check for intop
-        if (this.getCurrentToken().type === 'INTOP') {
+        while (this.isIntOp('+') || this.isIntOp('-')) {
+            intExprNode.addChild(this.parseIntOp());
+            const nextTerm = this.parseTerm();
+            if (!nextTerm) return null;
+            intExprNode.addChild(nextTerm);
+        }
+        
+        return this.finish(intExprNode);
+    }
+
+    // Term ::== Operand { * Operand }; a Term node is only created when there is a *
+    private parseTerm(): TreeNode | null {
+        const termNode = this.createNode('Term');
+        
+        const operandNode = this.parseOperand();
+        if (!operandNode) return null;
+        if (!this.isIntOp('*')) {
+            return operandNode;
+        }
+        termNode.addChild(operandNode);
+        
+        while (this.isIntOp('*')) {
+            termNode.addChild(this.parseIntOp());
+            const nextOperand = this.parseOperand();
+            if (!nextOperand) return null;
+            termNode.addChild(nextOperand);
+        }
+        
+        return this.finish(termNode);
+    }
+
+    // A digit, or any other expression; its type is checked by SemanticAnalyser
+    private parseOperand(): TreeNode | null {
+        const token = this.getCurrentToken();
+        if (token.type === 'DIGIT') {
             this.advance();
-            const exprNode = this.parseExpr();
-            if (!exprNode) return null;
-            intExprNode.addChild(exprNode);
+            return this.createNode('Digit', token.value || '', token);
         }
         
-        return intExprNode;
+        if (token.type === 'ID' || token.type === 'QUOTE' || token.type === 'LPAREN' || token.type === 'BOOLVAL' || token.type === 'NOT') {
+            return this.parseExpr();
+        }
+        const opToken = this.tokens[this.currentTokenIndex - 1];
+        this.addError(`Expected an operand after '${opToken.value}'`, 'E203');
+        return null;
+    }
+
+    private isIntOp(op: string): boolean {
+        const token = this.getCurrentToken();
+        return token.type === 'INTOP' && token.value === op;
+    }
+
+    private parseIntOp(): TreeNode {
+        const opToken = this.getCurrentToken();
+        this.advance();
+        return this.createNode('IntOp', opToken.value || '', opToken);
+    }
+
+    // Conjunction ::== Expr { and Expr }; a Conjunction node is only created when there is an and
+    private parseConjunction(first: TreeNode, firstToken: Token): TreeNode | null {
+        if (!this.isLogicOp('and')) {
+            return first;
+        }
+        const conjunctionNode = this.createNode('Conjunction', undefined, firstToken);
+        conjunctionNode.addChild(first);
+        
+        while (this.isLogicOp('and')) {
+            conjunctionNode.addChild(this.parseLogicOp());
+            const nextOperand = this.parseOperand();
+            if (!nextOperand) return null;
+            conjunctionNode.addChild(nextOperand);
+        }
+        
+        return this.finish(conjunctionNode);
+    }
+
+    private isLogicOp(op: string): boolean {
+        const token = this.getCurrentToken();
+        return token.type === 'LOGICOP' && token.value === op;
+    }
+
+    private parseLogicOp(): TreeNode {
+        const opToken = this.getCurrentToken();
+        this.advance();
+        return this.createNode('LogicOp', opToken.value || '', opToken);
     }
 
     private parseStringExpr(): TreeNode | null {
-        const stringExprNode = new TreeNode('StringExpr');
+        const stringExprNode = this.createNode('StringExpr');
         
         this.advance(); // consume opening quote
         while (this.getCurrentToken().type === 'CHAR' || this.getCurrentToken().type === 'SPACE') {
-            stringExprNode.addChild(new TreeNode('Char', this.getCurrentToken().value || ''));
+            stringExprNode.addChild(this.createNode('Char', this.getCurrentToken().value || ''));
             this.advance();
         }
         
         if (!this.expect('QUOTE', "Expected closing quote")) return null;
-        return stringExprNode;
+        return this.finish(stringExprNode);
     }
 
+    // BooleanExpr ::== ( Expr boolop Expr ) | ( Expr { (and | or) Expr } ) | not Expr | boolval,
+    // where not binds tightest and and binds tighter than or
     private parseBooleanExpr(): TreeNode | null {
-        const boolExprNode = new TreeNode('BooleanExpr');
+        const boolExprNode = this.createNode('BooleanExpr');
         
         if (this.getCurrentToken().type === 'BOOLVAL') {
-            boolExprNode.addChild(new TreeNode('BoolVal', this.getCurrentToken().value || ''));
+            boolExprNode.addChild(this.createNode('BoolVal', this.getCurrentToken().value || ''));
+            this.advance();
+            return this.finish(boolExprNode);
+        }
+        
+        if (this.getCurrentToken().type === 'NOT') {
+            boolExprNode.addChild(this.createNode('Not', this.getCurrentToken().value || ''));
             this.advance();
-            return boolExprNode;
+            const operandNode = this.parseOperand();
+            if (!operandNode) return null;
+            boolExprNode.addChild(operandNode);
+            return this.finish(boolExprNode);
         }
         
         if (!this.expect('LPAREN', "Expected '(' in boolean expression")) return null;
+        const firstToken = this.getCurrentToken();
         const expr1 = this.parseExpr();
         if (!expr1) return null;
+        
+        if (this.getCurrentToken().type === 'LOGICOP') {
+            // Operands alternate with LogicOps, the ands grouped into Conjunctions
+            let conjunction = this.parseConjunction(expr1, firstToken);
+            if (!conjunction) return null;
+            boolExprNode.addChild(conjunction);
+            while (this.isLogicOp('or')) {
+                boolExprNode.addChild(this.parseLogicOp());
+                const nextToken = this.getCurrentToken();
+                const nextOperand = this.parseOperand();
+                if (!nextOperand) return null;
+                conjunction = this.parseConjunction(nextOperand, nextToken);
+                if (!conjunction) return null;
+                boolExprNode.addChild(conjunction);
+            }
+            if (!this.expect('RPAREN', "Expected ')'")) return null;
+            return this.finish(boolExprNode);
+        }
         boolExprNode.addChild(expr1);
         
         if (!this.match('BOOLOP')) {
             this.addError("Expected boolean operator");
             return null;
         }
-        boolExprNode.addChild(new TreeNode('BoolOp', this.tokens[this.currentTokenIndex - 1].value || ''));
+        const opToken = this.tokens[this.currentTokenIndex - 1];
+        boolExprNode.addChild(this.createNode('BoolOp', opToken.value || '', opToken));
         
         const expr2 = this.parseExpr();
         if (!expr2) return null;
         boolExprNode.addChild(expr2);
         
         if (!this.expect('RPAREN', "Expected ')'")) return null;
-        return boolExprNode;
+        return this.finish(boolExprNode);
     }
 
-    getErrors(): string[] {
-        return this.errors;
+    getDiagnostics(): Diagnostic[] {
+        return this.diagnostics;
     }
 
     getCst(): TreeNode | null {
@@ -444,7 +768,7 @@ class Parser {
         const indentColor = '#606366'; // Grey for indent lines
 
         let result = `<span style="color: ${indentColor}">${indent}</span>`;
-        result += `<span style="color: ${nodeColor}">${node.name}</span>`;
+        result += `<span style="color: ${node.name === 'Error' ? 'red' : nodeColor}">${node.name}</span>`;
         
         if (node.value) {
             result += `<span style="color: ${valueColor}"> [${node.value}]</span>`;
@@ -457,6 +781,20 @@ class Parser {
         return result;
     }
 
+    // Plain-text version of visualizeTree for terminal output
+    public static visualizeTreeText(node: TreeNode, indent: string = ''): string {
+        let result = indent + node.name;
+        if (node.value) {
+            result += ` [${node.value}]`;
+        }
+        result += '\n';
+
+        for (const child of node.children) {
+            result += Parser.visualizeTreeText(child, indent + '  ');
+        }
+        return result;
+    }
+
     public enableDebug(callback: (message: string) => void): void {
         this.debugCallback = callback;
     }
@@ -469,86 +807,5 @@ class Parser {
 }
 
 // Make classes available globally
-(window as any).TreeNode = TreeNode;
-(window as any).Parser = Parser;
-
-function compile(): void {
-    const sourceCode = (document.getElementById('sourceCode') as HTMLTextAreaElement).value;
-    const outputDiv = document.getElementById('output') as HTMLDivElement;
-    outputDiv.innerHTML = '';
-    
-    // Split source code into programs by '$'
-    const programs = sourceCode.split('$').filter(prog => prog.trim().length > 0);
-    let fullOutput = '';
-    
-    for (let i = 0; i < programs.length; i++) {
-        const programNum = i + 1;
-        fullOutput += `<h3>Program ${programNum}</h3>`;
-        fullOutput += `<h4>Lexical Analysis</h4>`;
-        
-        // Lexical Analysis
-        const lexer = new Lexer(programs[i] + '$');
-        let tokens: Token[] = [];
-        
-        try {
-            let token: Token;
-            while ((token = lexer.getNextToken()).type !== 'EOF') {
-                tokens.push(token);
-                fullOutput += `<div>${lexer.formatToken(token.type, token.value)}</div>`;
-                
-                if (lexer.currentErrorMessage) {
-                    fullOutput += lexer.currentErrorMessage;
-                    lexer.currentErrorMessage = '';
-                }
-            }
-
-            // Check if lexical analysis failed
-            if (lexer.errors.length > 0) {
-                fullOutput += `<div style="color: red; font-weight: bold;">Lexical analysis failed with ${lexer.errors.length} error(s)</div>`;
-                fullOutput += '<hr>';
-                continue; // Move to next program
-            }
-
-            // If lexing succeeded, proceed with parsing
-            fullOutput += `<div style="color: #4CAF50; font-weight: bold;">Lexical analysis completed successfully</div>`;
-            fullOutput += `<h4>Parsing</h4>`;
-
-            const parser = new Parser(tokens);
-            parser.enableDebug((msg) => {
-                fullOutput += `<div style="color: #666; margin-left: 20px;">PARSER --> Parsing ${msg}</div>`;
-            });
-            
-            const cst = parser.parseProgram();
-            
-            if (parser.getErrors().length > 0) {
-                // Display parsing errors
-                fullOutput += parser.getErrors().map(error => 
-                    `<div style="color: red; font-weight: bold;">${error}</div>`
-                ).join('');
-                fullOutput += `<div style="color: red; font-weight: bold;">Parsing failed</div>`;
-            } else if (cst) {
-                // Display successful parse and CST
-                fullOutput += `<div style="color: #4CAF50; font-weight: bold;">Parsing completed successfully</div>`;
-                fullOutput += `<h4>Concrete Syntax Tree</h4>`;
-                fullOutput += `<pre style="
-                    background-color: #2b2b2b;
-                    color: #a9b7c6;
-                    padding: 15px;
-                    border-radius: 5px;
-                    font-family: 'Consolas', monospace;
-                    border: 1px solid #3c3f41;
-                    box-shadow: 0 2px 4px rgba(0,0,0,0.2);
-                    overflow: auto;
-                    max-height: 500px;
-                ">${Parser.visualizeTree(cst)}</pre>`;
-            }
-
-        } catch (error) {
-            fullOutput += `<div style="color: red; font-weight: bold;">Compiler Error in Program ${programNum}: ${error}</div>`;
-        }
-        
-        fullOutput += '<hr>';
-    }
-    
-    outputDiv.innerHTML = fullOutput;
-}
+(globalThis as any).TreeNode = TreeNode;
+(globalThis as any).Parser = Parser;